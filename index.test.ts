@@ -1,13 +1,37 @@
-import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, type MockInstance, vi } from "vitest";
 import os from "node:os";
 import path from "node:path";
-import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { EventEmitter } from "node:events";
+import { access, copyFile, mkdir, mkdtemp, readFile, rm, stat, utimes, writeFile } from "node:fs/promises";
+import { PassThrough } from "node:stream";
 
 const execFileAsyncMock =
     vi.fn<
         (file: string, args: string[], options: Record<string, unknown>) => Promise<{ stdout: string; stderr?: string }>
     >();
 
+type FakeChildProcess = EventEmitter & {
+    spawnfile: string;
+    spawnargs: string[];
+    stdout: PassThrough;
+    kill: ReturnType<typeof vi.fn>;
+};
+
+const spawnMock = vi.fn<(file: string, args: string[], options: Record<string, unknown>) => FakeChildProcess>();
+
+function createFakeChildProcess(file = "", args: string[] = []): FakeChildProcess {
+    const child = new EventEmitter() as FakeChildProcess;
+    child.spawnfile = file;
+    child.spawnargs = [file, ...args];
+    child.stdout = new PassThrough();
+    child.kill = vi.fn(() => {
+        child.stdout.end();
+        child.emit("exit", null, "SIGTERM");
+        return true;
+    });
+    return child;
+}
+
 vi.mock("node:child_process", () => {
     const promisifyCustom = Symbol.for("nodejs.util.promisify.custom");
     const execFile = vi.fn();
@@ -18,35 +42,90 @@ vi.mock("node:child_process", () => {
         options: Record<string, unknown>,
     ) => execFileAsyncMock(file, args, options);
 
-    return { execFile };
+    return {
+        execFile,
+        spawn: (file: string, args: string[], options: Record<string, unknown>) => spawnMock(file, args, options),
+    };
 });
 
 type SessionStartHandler = (event: unknown, ctx: TestContext) => Promise<void> | void;
+type SessionShutdownHandler = () => Promise<void> | void;
+type CommandHandler = (args: string, ctx: TestContext) => Promise<void>;
 
 type TestContext = {
     hasUI: boolean;
+    cwd: string;
     ui: {
-        theme: { name: string | undefined };
+        theme: TestTheme;
         getAllThemes: () => Array<{ name: string; path?: string }>;
-        setTheme: (theme: string) => { success: boolean; error?: string };
+        setTheme: (theme: string | TestTheme) => { success: boolean; error?: string };
         notify: (message: string, level?: string) => void;
+        onTerminalInput: (handler: TerminalInputHandler) => () => void;
+        select: (title: string, options: string[]) => Promise<string | undefined>;
+        input: (title: string, placeholder?: string) => Promise<string | undefined>;
+        custom: (factory: CustomFactory) => Promise<unknown>;
     };
 };
 
+type TestTheme = { name: string | undefined };
+
+type CustomComponent = { render: (width: number) => string[]; handleInput?: (data: string) => void };
+
+type CustomFactory = (
+    tui: { requestRender: () => void },
+    theme: { fg: (color: string, text: string) => string; bold: (text: string) => string },
+    keybindings: unknown,
+    done: (result: unknown) => void,
+) => CustomComponent | Promise<CustomComponent>;
+
+const KEY_UP = "\u001b[A";
+const KEY_DOWN = "\u001b[B";
+const KEY_ENTER = "\r";
+const KEY_ESCAPE = "\u001b";
+
+type TerminalInputHandler = (data: string) => { consume?: boolean; data?: string } | undefined;
+
 const originalPlatform = process.platform;
 const originalHome = process.env.HOME;
+const originalCurrentDesktop = process.env.XDG_CURRENT_DESKTOP;
+const originalDesktopSession = process.env.DESKTOP_SESSION;
+const originalConfigHome = process.env.XDG_CONFIG_HOME;
+const originalColorFgBg = process.env.COLORFGBG;
+const originalAppearanceOverride = process.env.PI_SYSTEM_APPEARANCE;
+const CONFIG_ENV_NAMES = [
+    "PI_SYSTEM_THEME_DARK",
+    "PI_SYSTEM_THEME_LIGHT",
+    "PI_SYSTEM_THEME_POLL_MS",
+    "PI_SYSTEM_THEME_DEBUG",
+] as const;
+const originalConfigEnv = CONFIG_ENV_NAMES.map((name) => [name, process.env[name]] as const);
+const originalStdoutIsTTY = process.stdout.isTTY;
 let testHome = "";
-let setIntervalSpy: { mockRestore: () => void };
-let clearIntervalSpy: { mockRestore: () => void };
+/** Shutdown handlers of every runtime created by a test, so config watchers never outlive it. */
+let runtimeShutdowns: SessionShutdownHandler[] = [];
+let setIntervalSpy: MockInstance<typeof setInterval>;
+let clearIntervalSpy: MockInstance<typeof clearInterval>;
 
 function setPlatform(platform: NodeJS.Platform): void {
     Object.defineProperty(process, "platform", { value: platform });
 }
 
+function restoreEnv(name: string, value: string | undefined): void {
+    if (value === undefined) {
+        delete process.env[name];
+    } else {
+        process.env[name] = value;
+    }
+}
+
 function getGSettingsKey(args: string[]): string {
     return args[2] ?? "";
 }
 
+function getCommandCalls(file: string): Array<[string, string[], Record<string, unknown>]> {
+    return execFileAsyncMock.mock.calls.filter(([calledFile]) => calledFile === file);
+}
+
 function getRegistryValueName(args: string[]): string {
     return args[3] ?? "";
 }
@@ -55,8 +134,54 @@ function getConfigPath(): string {
     return path.join(testHome, ".pi", "agent", "system-theme.json");
 }
 
+function getProjectDir(): string {
+    return path.join(testHome, "project");
+}
+
+function getProjectConfigPath(): string {
+    return path.join(getProjectDir(), ".pi", "system-theme.json");
+}
+
 async function clearConfig(): Promise<void> {
     await rm(path.join(testHome, ".pi"), { recursive: true, force: true });
+    await rm(path.join(testHome, ".config"), { recursive: true, force: true });
+    await rm(getProjectDir(), { recursive: true, force: true });
+}
+
+async function writeProjectConfig(config: Record<string, unknown>): Promise<void> {
+    const configPath = getProjectConfigPath();
+    await mkdir(path.dirname(configPath), { recursive: true });
+    await writeFile(configPath, `${JSON.stringify(config, null, 4)}\n`, "utf8");
+}
+
+async function readJson(filePath: string): Promise<unknown> {
+    return JSON.parse(await readFile(filePath, "utf8")) as unknown;
+}
+
+async function writeKdeGlobals(content: string): Promise<void> {
+    const kdeGlobalsPath = path.join(testHome, ".config", "kdeglobals");
+    await mkdir(path.dirname(kdeGlobalsPath), { recursive: true });
+    await writeFile(kdeGlobalsPath, content, "utf8");
+}
+
+/** Copies a file from `fixtures/` to `target`, e.g. a dconf database or a preferences plist. */
+async function installFixture(name: string, target: string): Promise<void> {
+    await mkdir(path.dirname(target), { recursive: true });
+    await copyFile(new URL(`./fixtures/${name}`, import.meta.url), target);
+}
+
+function getDconfDatabasePath(): string {
+    return path.join(testHome, ".config", "dconf", "user");
+}
+
+function getGlobalPreferencesPath(): string {
+    return path.join(testHome, "Library", "Preferences", ".GlobalPreferences.plist");
+}
+
+async function writeGtkSettings(content: string): Promise<void> {
+    const settingsPath = path.join(testHome, ".config", "gtk-3.0", "settings.ini");
+    await mkdir(path.dirname(settingsPath), { recursive: true });
+    await writeFile(settingsPath, content, "utf8");
 }
 
 async function writeConfig(config: Record<string, unknown>): Promise<void> {
@@ -65,18 +190,58 @@ async function writeConfig(config: Record<string, unknown>): Promise<void> {
     await writeFile(configPath, `${JSON.stringify(config, null, 4)}\n`, "utf8");
 }
 
-async function createExtensionRuntime(): Promise<{ sessionStart: SessionStartHandler }> {
+type TestEventBus = {
+    emit: (channel: string, data: unknown) => void;
+    on: (channel: string, handler: (data: unknown) => void) => () => void;
+};
+
+function createEventBus(): TestEventBus {
+    const handlers = new Map<string, Set<(data: unknown) => void>>();
+
+    return {
+        emit: (channel, data) => {
+            for (const handler of handlers.get(channel) ?? []) {
+                handler(data);
+            }
+        },
+        on: (channel, handler) => {
+            const channelHandlers = handlers.get(channel) ?? new Set();
+            channelHandlers.add(handler);
+            handlers.set(channel, channelHandlers);
+            return () => channelHandlers.delete(handler);
+        },
+    };
+}
+
+async function createExtensionRuntime(): Promise<{
+    sessionStart: SessionStartHandler;
+    sessionShutdown: SessionShutdownHandler;
+    runCommand: CommandHandler;
+    events: TestEventBus;
+}> {
     const { default: systemThemeExtension } = await import("./index.js");
+    const events = createEventBus();
 
     let sessionStartHandler: SessionStartHandler | undefined;
+    let sessionShutdownHandler: SessionShutdownHandler | undefined;
+    let commandHandler: CommandHandler | undefined;
 
     const pi = {
-        on: (event: string, handler: SessionStartHandler) => {
+        events,
+        on: (event: string, handler: SessionStartHandler & SessionShutdownHandler) => {
             if (event === "session_start") {
                 sessionStartHandler = handler;
             }
+
+            if (event === "session_shutdown") {
+                sessionShutdownHandler = handler;
+            }
+        },
+        registerCommand: (name: string, options: { handler: CommandHandler }) => {
+            if (name === "system-theme") {
+                commandHandler = options.handler;
+            }
         },
-        registerCommand: () => undefined,
     };
 
     systemThemeExtension(pi as never);
@@ -85,41 +250,128 @@ async function createExtensionRuntime(): Promise<{ sessionStart: SessionStartHan
         throw new Error("session_start handler was not registered");
     }
 
+    if (!sessionShutdownHandler) {
+        throw new Error("session_shutdown handler was not registered");
+    }
+
+    if (!commandHandler) {
+        throw new Error("system-theme command was not registered");
+    }
+
+    runtimeShutdowns.push(sessionShutdownHandler);
+
     return {
         sessionStart: sessionStartHandler,
+        sessionShutdown: sessionShutdownHandler,
+        runCommand: commandHandler,
+        events,
     };
 }
 
+/** Fires the most recently scheduled poll callback and lets the resulting sync settle. */
+async function runPollTick(): Promise<void> {
+    const tick = setIntervalSpy.mock.calls.at(-1)?.[0] as (() => void) | undefined;
+    tick?.();
+    // Detection reads files (dconf, plists, kdeglobals) before spawning, so let that I/O finish too.
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await flushAsync();
+}
+
+async function configExists(filePath = getConfigPath()): Promise<boolean> {
+    try {
+        await access(filePath);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function flushAsync(): Promise<void> {
+    return new Promise((resolve) => setImmediate(resolve));
+}
+
 type CreateContextOptions = {
     hasUI?: boolean;
     themeName?: string;
     themes?: string[];
+    /** Menu answers, matched against option labels by prefix, consumed in order. */
+    selectAnswers?: string[];
+    inputAnswers?: string[];
+    /** Key presses sent to each `ui.custom` component, one array per call; functions run between keys. */
+    customKeys?: Array<Array<string | (() => Promise<void>)>>;
 };
 
 type CreatedContext = {
     ctx: TestContext;
     setThemeMock: ReturnType<typeof vi.fn>;
     notifyMock: ReturnType<typeof vi.fn>;
+    terminalInputHandlers: Set<TerminalInputHandler>;
+    selectMock: ReturnType<typeof vi.fn>;
 };
 
 function createContext(options?: CreateContextOptions): CreatedContext {
     const hasUI = options?.hasUI ?? true;
-    const theme = { name: options?.themeName ?? "dark" };
+    const initialTheme: TestTheme = { name: options?.themeName ?? "dark" };
     const themes = options?.themes ?? ["dark", "light", "rose-pine", "rose-pine-dawn"];
 
     const notifyMock = vi.fn();
-    const setThemeMock = vi.fn((nextTheme: string) => {
-        theme.name = nextTheme;
+    const terminalInputHandlers = new Set<TerminalInputHandler>();
+    const selectAnswers = [...(options?.selectAnswers ?? [])];
+    const inputAnswers = [...(options?.inputAnswers ?? [])];
+    const selectMock = vi.fn(async (_title: string, choices: string[]) => {
+        const answer = selectAnswers.shift();
+        return answer === undefined ? undefined : choices.find((choice) => choice.startsWith(answer));
+    });
+    const setThemeMock = vi.fn((nextTheme: string | TestTheme) => {
+        ctx.ui.theme = typeof nextTheme === "string" ? { name: nextTheme } : nextTheme;
         return { success: true };
     });
+    const customKeys = [...(options?.customKeys ?? [])];
+    const customMock = vi.fn(async (factory: CustomFactory) => {
+        const keys = customKeys.shift() ?? [KEY_ESCAPE];
+        let result: unknown;
+        let finished = false;
+
+        const component = await factory(
+            { requestRender: () => undefined },
+            { fg: (_color, text) => text, bold: (text) => text },
+            undefined,
+            (value) => {
+                result = value;
+                finished = true;
+            },
+        );
+
+        for (const key of keys) {
+            if (finished) {
+                break;
+            }
+
+            if (typeof key === "function") {
+                await key();
+            } else {
+                component.handleInput?.(key);
+            }
+        }
+
+        return result;
+    });
 
     const ctx: TestContext = {
         hasUI,
+        cwd: getProjectDir(),
         ui: {
-            theme,
+            theme: initialTheme,
             getAllThemes: () => themes.map((name) => ({ name })),
             setTheme: setThemeMock,
             notify: notifyMock,
+            onTerminalInput: (handler) => {
+                terminalInputHandlers.add(handler);
+                return () => terminalInputHandlers.delete(handler);
+            },
+            select: selectMock,
+            input: async () => inputAnswers.shift(),
+            custom: customMock,
         },
     };
 
@@ -127,6 +379,8 @@ function createContext(options?: CreateContextOptions): CreatedContext {
         ctx,
         setThemeMock,
         notifyMock,
+        terminalInputHandlers,
+        selectMock,
     };
 }
 
@@ -141,8 +395,19 @@ beforeEach(async () => {
         throw new Error(`Unexpected command: ${file}`);
     });
 
+    spawnMock.mockReset();
+    spawnMock.mockImplementation((file, args) => createFakeChildProcess(file, args));
+
     await clearConfig();
     setPlatform(originalPlatform);
+    delete process.env.XDG_CURRENT_DESKTOP;
+    delete process.env.DESKTOP_SESSION;
+    delete process.env.XDG_CONFIG_HOME;
+    delete process.env.COLORFGBG;
+    delete process.env.PI_SYSTEM_APPEARANCE;
+    for (const name of CONFIG_ENV_NAMES) {
+        delete process.env[name];
+    }
 
     setIntervalSpy = vi
         .spyOn(globalThis, "setInterval")
@@ -151,20 +416,31 @@ beforeEach(async () => {
     clearIntervalSpy = vi.spyOn(globalThis, "clearInterval").mockImplementation(() => undefined);
 });
 
-afterEach(() => {
+afterEach(async () => {
+    for (const shutdown of runtimeShutdowns) {
+        await shutdown();
+    }
+    runtimeShutdowns = [];
+
+    vi.useRealTimers();
     setIntervalSpy.mockRestore();
     clearIntervalSpy.mockRestore();
+    restoreEnv("XDG_CURRENT_DESKTOP", originalCurrentDesktop);
+    restoreEnv("DESKTOP_SESSION", originalDesktopSession);
+    restoreEnv("XDG_CONFIG_HOME", originalConfigHome);
+    restoreEnv("COLORFGBG", originalColorFgBg);
+    restoreEnv("PI_SYSTEM_APPEARANCE", originalAppearanceOverride);
+    for (const [name, value] of originalConfigEnv) {
+        restoreEnv(name, value);
+    }
+    Object.defineProperty(process.stdout, "isTTY", { value: originalStdoutIsTTY, configurable: true });
 });
 
 afterAll(async () => {
     await clearConfig();
     await rm(testHome, { recursive: true, force: true });
 
-    if (originalHome === undefined) {
-        delete process.env.HOME;
-    } else {
-        process.env.HOME = originalHome;
-    }
+    restoreEnv("HOME", originalHome);
 
     setPlatform(originalPlatform);
 });
@@ -246,7 +522,7 @@ describe("pi-system-theme", () => {
         await sessionStart({}, ctx);
 
         expect(setThemeMock).toHaveBeenCalledWith("light");
-        expect(execFileAsyncMock).toHaveBeenCalledTimes(1);
+        expect(getCommandCalls("gsettings")).toHaveLength(1);
     });
 
     it("falls back to gtk-theme detection on Linux", async () => {
@@ -274,10 +550,2496 @@ describe("pi-system-theme", () => {
 
         await sessionStart({}, ctx);
 
-        expect(execFileAsyncMock).toHaveBeenCalledTimes(2);
+        expect(getCommandCalls("gsettings")).toHaveLength(2);
+        expect(setThemeMock).toHaveBeenCalledWith("dark");
+    });
+
+    it("prefers the XDG Desktop Portal color-scheme on Linux", async () => {
+        setPlatform("linux");
+
+        execFileAsyncMock.mockImplementation(async (file, args) => {
+            if (file === "gdbus" && args.includes("org.freedesktop.appearance")) {
+                return { stdout: "(<uint32 1>,)\n" };
+            }
+
+            throw new Error(`Unexpected command: ${file}`);
+        });
+
+        const { sessionStart } = await createExtensionRuntime();
+        const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+        await sessionStart({}, ctx);
+
+        expect(setThemeMock).toHaveBeenCalledWith("dark");
+        expect(getCommandCalls("gsettings")).toHaveLength(0);
+    });
+
+    it("falls back to the older portal Read method when ReadOne is missing", async () => {
+        setPlatform("linux");
+
+        execFileAsyncMock.mockImplementation(async (file, args) => {
+            if (file === "gdbus" && args.includes("org.freedesktop.portal.Settings.ReadOne")) {
+                throw Object.assign(new Error("Command failed"), {
+                    code: 1,
+                    stderr: "Error: GDBus.Error:org.freedesktop.DBus.Error.UnknownMethod: No such method “ReadOne”\n",
+                });
+            }
+
+            if (file === "gdbus" && args.includes("org.freedesktop.portal.Settings.Read")) {
+                return { stdout: "(<<uint32 2>>,)\n" };
+            }
+
+            throw new Error(`Unexpected command: ${file}`);
+        });
+
+        const { sessionStart } = await createExtensionRuntime();
+        const { ctx, setThemeMock } = createContext({ themeName: "dark" });
+
+        await sessionStart({}, ctx);
+
+        expect(setThemeMock).toHaveBeenCalledWith("light");
+        expect(getCommandCalls("gdbus")).toHaveLength(2);
+        expect(getCommandCalls("busctl")).toHaveLength(0);
+    });
+
+    it("falls back to busctl when gdbus is unavailable", async () => {
+        setPlatform("linux");
+
+        execFileAsyncMock.mockImplementation(async (file) => {
+            if (file === "busctl") {
+                return { stdout: "v u 2\n" };
+            }
+
+            throw new Error(`Unexpected command: ${file}`);
+        });
+
+        const { sessionStart } = await createExtensionRuntime();
+        const { ctx, setThemeMock } = createContext({ themeName: "dark" });
+
+        await sessionStart({}, ctx);
+
+        expect(setThemeMock).toHaveBeenCalledWith("light");
+        expect(getCommandCalls("gdbus")).toHaveLength(1);
+        expect(getCommandCalls("gsettings")).toHaveLength(0);
+    });
+
+    it("falls back to gsettings when the portal reports no preference", async () => {
+        setPlatform("linux");
+
+        execFileAsyncMock.mockImplementation(async (file, args) => {
+            if (file === "gdbus") {
+                return { stdout: "(<uint32 0>,)\n" };
+            }
+
+            if (file === "gsettings" && getGSettingsKey(args) === "color-scheme") {
+                return { stdout: "'prefer-dark'\n" };
+            }
+
+            throw new Error(`Unexpected command: ${file}`);
+        });
+
+        const { sessionStart } = await createExtensionRuntime();
+        const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+        await sessionStart({}, ctx);
+
+        expect(setThemeMock).toHaveBeenCalledWith("dark");
+        expect(getCommandCalls("gsettings")).toHaveLength(1);
+    });
+
+    it("reads the KDE color scheme name from kdeglobals on Plasma", async () => {
+        setPlatform("linux");
+        process.env.XDG_CURRENT_DESKTOP = "KDE";
+
+        await writeKdeGlobals(
+            "[General]\nColorScheme=BreezeDark\n\n[KDE]\nLookAndFeelPackage=org.kde.breeze.desktop\n",
+        );
+
+        const { sessionStart } = await createExtensionRuntime();
+        const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+        await sessionStart({}, ctx);
+
+        expect(setThemeMock).toHaveBeenCalledWith("dark");
+        expect(execFileAsyncMock).not.toHaveBeenCalled();
+    });
+
+    it("falls back to the KDE look-and-feel package name", async () => {
+        setPlatform("linux");
+        process.env.XDG_CURRENT_DESKTOP = "KDE";
+
+        await writeKdeGlobals(
+            "[General]\nColorScheme=Breeze\n\n[KDE]\nLookAndFeelPackage=org.kde.breezedark.desktop\n",
+        );
+
+        const { sessionStart } = await createExtensionRuntime();
+        const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+        await sessionStart({}, ctx);
+
         expect(setThemeMock).toHaveBeenCalledWith("dark");
     });
 
+    it("uses the KDE window background luminance when scheme names are ambiguous", async () => {
+        setPlatform("linux");
+        process.env.XDG_CURRENT_DESKTOP = "KDE";
+
+        await writeKdeGlobals("[General]\nColorScheme=Nordic\n\n[Colors:Window]\nBackgroundNormal=239,240,241\n");
+
+        const { sessionStart } = await createExtensionRuntime();
+        const { ctx, setThemeMock } = createContext({ themeName: "dark" });
+
+        await sessionStart({}, ctx);
+
+        expect(setThemeMock).toHaveBeenCalledWith("light");
+        expect(execFileAsyncMock).not.toHaveBeenCalled();
+    });
+
+    it("ignores kdeglobals outside KDE sessions", async () => {
+        setPlatform("linux");
+        process.env.XDG_CURRENT_DESKTOP = "GNOME";
+
+        await writeKdeGlobals("[General]\nColorScheme=BreezeDark\n");
+
+        execFileAsyncMock.mockImplementation(async (file, args) => {
+            if (file === "gsettings" && getGSettingsKey(args) === "color-scheme") {
+                return { stdout: "'prefer-light'\n" };
+            }
+
+            throw new Error(`Unexpected command: ${file}`);
+        });
+
+        const { sessionStart } = await createExtensionRuntime();
+        const { ctx, setThemeMock } = createContext({ themeName: "dark" });
+
+        await sessionStart({}, ctx);
+
+        expect(setThemeMock).toHaveBeenCalledWith("light");
+    });
+
+    describe("subprocess-free reads", () => {
+        afterEach(async () => {
+            await rm(path.join(testHome, "Library"), { recursive: true, force: true });
+        });
+
+        it("reads color-scheme from the dconf database on GNOME", async () => {
+            setPlatform("linux");
+            process.env.XDG_CURRENT_DESKTOP = "ubuntu:GNOME";
+            await installFixture("dconf-user-prefer-dark", getDconfDatabasePath());
+
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx, setThemeMock, notifyMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+            await runCommand("status", ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("dark");
+            expect(execFileAsyncMock).not.toHaveBeenCalled();
+            expect(String(notifyMock.mock.calls.at(-1)?.[0])).toContain('output "prefer-dark" | -> dark');
+        });
+
+        it("falls back to the commands when dconf has no color-scheme", async () => {
+            setPlatform("linux");
+            process.env.XDG_CURRENT_DESKTOP = "GNOME";
+            await installFixture("dconf-user-default", getDconfDatabasePath());
+
+            execFileAsyncMock.mockImplementation(async (file, args) => {
+                if (file === "gsettings" && getGSettingsKey(args) === "color-scheme") {
+                    return { stdout: "'prefer-light'\n" };
+                }
+
+                throw new Error(`Unexpected command: ${file}`);
+            });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "dark" });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("light");
+            expect(getCommandCalls("gsettings")).toHaveLength(1);
+        });
+
+        it("falls back to the commands when the dconf database is not GVDB", async () => {
+            setPlatform("linux");
+            process.env.XDG_CURRENT_DESKTOP = "GNOME";
+            await mkdir(path.dirname(getDconfDatabasePath()), { recursive: true });
+            await writeFile(getDconfDatabasePath(), "color-scheme='prefer-dark'\n", "utf8");
+
+            execFileAsyncMock.mockImplementation(async (file, args) => {
+                if (file === "gsettings" && getGSettingsKey(args) === "color-scheme") {
+                    return { stdout: "'prefer-light'\n" };
+                }
+
+                throw new Error(`Unexpected command: ${file}`);
+            });
+
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx, setThemeMock, notifyMock } = createContext({ themeName: "dark" });
+
+            await sessionStart({}, ctx);
+            await runCommand("status", ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("light");
+            expect(String(notifyMock.mock.calls.at(-1)?.[0])).toContain("exit invalid");
+        });
+
+        it("leaves the dconf database alone outside GNOME sessions", async () => {
+            setPlatform("linux");
+            await installFixture("dconf-user-prefer-dark", getDconfDatabasePath());
+
+            execFileAsyncMock.mockImplementation(async (file, args) => {
+                if (file === "gsettings" && getGSettingsKey(args) === "color-scheme") {
+                    return { stdout: "'prefer-light'\n" };
+                }
+
+                throw new Error(`Unexpected command: ${file}`);
+            });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "dark" });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("light");
+        });
+
+        it("reads AppleInterfaceStyle from the global preferences plist on macOS", async () => {
+            setPlatform("darwin");
+            await installFixture("GlobalPreferences-dark.plist", getGlobalPreferencesPath());
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("dark");
+            expect(execFileAsyncMock).not.toHaveBeenCalled();
+        });
+
+        it("treats a plist without AppleInterfaceStyle as light mode", async () => {
+            setPlatform("darwin");
+            await installFixture("GlobalPreferences-light.plist", getGlobalPreferencesPath());
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "dark" });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("light");
+            expect(execFileAsyncMock).not.toHaveBeenCalled();
+        });
+
+        it("falls back to defaults when the plist is not binary", async () => {
+            setPlatform("darwin");
+            await mkdir(path.dirname(getGlobalPreferencesPath()), { recursive: true });
+            await writeFile(getGlobalPreferencesPath(), '<?xml version="1.0" encoding="UTF-8"?>\n<plist/>\n', "utf8");
+            execFileAsyncMock.mockResolvedValue({ stdout: "Dark\n" });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("dark");
+            expect(getCommandCalls("/usr/bin/defaults")).toHaveLength(1);
+        });
+    });
+
+    it("watches gsettings for changes instead of polling on GNOME", async () => {
+        setPlatform("linux");
+        process.env.XDG_CURRENT_DESKTOP = "ubuntu:GNOME";
+
+        let colorScheme = "'prefer-light'";
+        execFileAsyncMock.mockImplementation(async (file, args) => {
+            if (file === "gsettings" && getGSettingsKey(args) === "color-scheme") {
+                return { stdout: `${colorScheme}\n` };
+            }
+
+            throw new Error(`Unexpected command: ${file}`);
+        });
+
+        const child = createFakeChildProcess();
+        spawnMock.mockReturnValue(child);
+
+        const { sessionStart } = await createExtensionRuntime();
+        const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+        await sessionStart({}, ctx);
+
+        expect(spawnMock).toHaveBeenCalledTimes(1);
+        expect(spawnMock.mock.calls[0]?.[0]).toBe("gsettings");
+        expect(spawnMock.mock.calls[0]?.[1]).toEqual(["monitor", "org.gnome.desktop.interface"]);
+        expect(setIntervalSpy).not.toHaveBeenCalled();
+
+        colorScheme = "'prefer-dark'";
+        child.stdout.write("cursor-size: 24\n");
+        await flushAsync();
+        expect(setThemeMock).not.toHaveBeenCalled();
+
+        child.stdout.write("color-scheme: 'prefer-dark'\n");
+        await vi.waitFor(() => expect(setThemeMock).toHaveBeenCalledWith("dark"));
+    });
+
+    it("monitors the portal SettingChanged signal outside GNOME", async () => {
+        setPlatform("linux");
+        process.env.XDG_CURRENT_DESKTOP = "COSMIC";
+
+        let portalValue = 2;
+        execFileAsyncMock.mockImplementation(async (file) => {
+            if (file === "gdbus") {
+                return { stdout: `(<uint32 ${portalValue}>,)\n` };
+            }
+
+            throw new Error(`Unexpected command: ${file}`);
+        });
+
+        const child = createFakeChildProcess();
+        spawnMock.mockReturnValue(child);
+
+        const { sessionStart } = await createExtensionRuntime();
+        const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+        await sessionStart({}, ctx);
+
+        expect(spawnMock.mock.calls[0]?.[0]).toBe("gdbus");
+        expect(spawnMock.mock.calls[0]?.[1]).toContain("monitor");
+
+        portalValue = 1;
+        child.stdout.write(
+            "/org/freedesktop/portal/desktop: org.freedesktop.portal.Settings.SettingChanged ('org.freedesktop.appearance', 'color-scheme', <uint32 1>)\n",
+        );
+
+        await vi.waitFor(() => expect(setThemeMock).toHaveBeenCalledWith("dark"));
+    });
+
+    describe("other Linux desktops", () => {
+        it("reads and monitors the XFCE theme through xfconf", async () => {
+            setPlatform("linux");
+            process.env.XDG_CURRENT_DESKTOP = "XFCE";
+
+            let themeName = "Greybird";
+            execFileAsyncMock.mockImplementation(async (file, args) => {
+                if (file === "xfconf-query") {
+                    expect(args).toEqual(["-c", "xsettings", "-p", "/Net/ThemeName"]);
+                    return { stdout: `${themeName}\n` };
+                }
+
+                throw new Error(`Unexpected command: ${file}`);
+            });
+
+            const child = createFakeChildProcess();
+            spawnMock.mockReturnValue(child);
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+            themeName = "Greybird-dark";
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("dark");
+            expect(spawnMock.mock.calls[0]?.[0]).toBe("xfconf-query");
+            expect(spawnMock.mock.calls[0]?.[1]).toEqual(["-c", "xsettings", "-p", "/Net/ThemeName", "-m"]);
+
+            themeName = "Adwaita-light";
+            child.stdout.write("set: /Net/ThemeName\n");
+            await vi.waitFor(() => expect(setThemeMock).toHaveBeenCalledWith("light"));
+        });
+
+        it("reads the Cinnamon gtk-theme", async () => {
+            setPlatform("linux");
+            process.env.XDG_CURRENT_DESKTOP = "X-Cinnamon";
+
+            execFileAsyncMock.mockImplementation(async (file, args) => {
+                if (file === "gsettings" && args[1] === "org.cinnamon.desktop.interface") {
+                    return { stdout: "'Mint-Y-Dark-Aqua'\n" };
+                }
+
+                throw new Error(`Unexpected command: ${file} ${args.join(" ")}`);
+            });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("dark");
+            expect(spawnMock.mock.calls[0]?.[1]).toEqual(["monitor", "org.cinnamon.desktop.interface", "gtk-theme"]);
+        });
+
+        it("recognizes MATE from DESKTOP_SESSION", async () => {
+            setPlatform("linux");
+            process.env.DESKTOP_SESSION = "mate";
+
+            execFileAsyncMock.mockImplementation(async (file, args) => {
+                if (file === "gsettings" && args[1] === "org.mate.interface" && args[2] === "gtk-theme") {
+                    return { stdout: "'Ambiant-MATE-Dark'\n" };
+                }
+
+                throw new Error(`Unexpected command: ${file} ${args.join(" ")}`);
+            });
+
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx, setThemeMock, notifyMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+            await runCommand("status", ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("dark");
+            expect(String(notifyMock.mock.calls.at(-1)?.[0])).toContain("Platform: linux (desktop: mate)");
+        });
+
+        it("falls back to GTK settings.ini under standalone window managers and polls it", async () => {
+            setPlatform("linux");
+            process.env.XDG_CURRENT_DESKTOP = "i3";
+            await writeGtkSettings("[Settings]\ngtk-theme-name=Adwaita\ngtk-application-prefer-dark-theme=1\n");
+
+            execFileAsyncMock.mockImplementation(async (file) => {
+                if (file === "gdbus") {
+                    return { stdout: "(<uint32 0>,)\n" };
+                }
+
+                throw new Error(`Unexpected command: ${file}`);
+            });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("dark");
+            expect(getCommandCalls("gsettings")).toHaveLength(0);
+            expect(spawnMock).not.toHaveBeenCalled();
+            expect(setIntervalSpy).toHaveBeenCalledTimes(1);
+
+            await writeGtkSettings("[Settings]\ngtk-theme-name=Arc-Lighter\ngtk-application-prefer-dark-theme=false\n");
+            await runPollTick();
+
+            expect(setThemeMock).toHaveBeenLastCalledWith("light");
+        });
+    });
+
+    it("falls back to polling when the monitor exits", async () => {
+        setPlatform("linux");
+        process.env.XDG_CURRENT_DESKTOP = "GNOME";
+
+        execFileAsyncMock.mockImplementation(async (file, args) => {
+            if (file === "gsettings" && getGSettingsKey(args) === "color-scheme") {
+                return { stdout: "'prefer-dark'\n" };
+            }
+
+            throw new Error(`Unexpected command: ${file}`);
+        });
+
+        const child = createFakeChildProcess();
+        spawnMock.mockReturnValue(child);
+
+        const { sessionStart } = await createExtensionRuntime();
+        const { ctx } = createContext({ themeName: "dark" });
+
+        await sessionStart({}, ctx);
+        expect(setIntervalSpy).not.toHaveBeenCalled();
+
+        child.emit("exit", 1, null);
+
+        expect(setIntervalSpy).toHaveBeenCalledTimes(1);
+        expect(setIntervalSpy.mock.calls[0]?.[1]).toBe(2000);
+    });
+
+    it("falls back to polling when the monitor cannot be started", async () => {
+        setPlatform("linux");
+        process.env.XDG_CURRENT_DESKTOP = "GNOME";
+
+        const child = createFakeChildProcess();
+        spawnMock.mockReturnValue(child);
+
+        const { sessionStart } = await createExtensionRuntime();
+        const { ctx } = createContext({ themeName: "dark" });
+
+        await sessionStart({}, ctx);
+        child.emit("error", Object.assign(new Error("spawn gsettings ENOENT"), { code: "ENOENT" }));
+
+        expect(setIntervalSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("stops the monitor on session shutdown", async () => {
+        setPlatform("linux");
+        process.env.XDG_CURRENT_DESKTOP = "GNOME";
+
+        const child = createFakeChildProcess();
+        spawnMock.mockReturnValue(child);
+
+        const { sessionStart, sessionShutdown } = await createExtensionRuntime();
+        const { ctx } = createContext({ themeName: "dark" });
+
+        await sessionStart({}, ctx);
+        await sessionShutdown();
+
+        expect(child.kill).toHaveBeenCalledTimes(1);
+        expect(setIntervalSpy).not.toHaveBeenCalled();
+    });
+
+    it("keeps polling on platforms without a monitor", async () => {
+        setPlatform("darwin");
+
+        execFileAsyncMock.mockResolvedValue({ stdout: "Dark\n" });
+
+        const { sessionStart } = await createExtensionRuntime();
+        const { ctx } = createContext({ themeName: "dark" });
+
+        await sessionStart({}, ctx);
+
+        expect(spawnMock).not.toHaveBeenCalled();
+        expect(setIntervalSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("detects appearance from the terminal background via OSC 11", async () => {
+        setPlatform("linux");
+        Object.defineProperty(process.stdout, "isTTY", { value: true, configurable: true });
+
+        await writeConfig({ source: "terminal" });
+
+        const { sessionStart } = await createExtensionRuntime();
+        const { ctx, setThemeMock, terminalInputHandlers } = createContext({ themeName: "dark" });
+
+        const writeSpy = vi.spyOn(process.stdout, "write").mockImplementation((chunk) => {
+            if (String(chunk) === "\u001b]11;?\u0007") {
+                queueMicrotask(() => {
+                    for (const handler of terminalInputHandlers) {
+                        expect(handler("x")).toBeUndefined();
+                        expect(handler("\u001b]11;rgb:fdfd/f6f6/e3e3\u001b\\")).toEqual({ consume: true });
+                    }
+                });
+            }
+
+            return true;
+        });
+
+        try {
+            await sessionStart({}, ctx);
+        } finally {
+            writeSpy.mockRestore();
+        }
+
+        expect(setThemeMock).toHaveBeenCalledWith("light");
+        expect(terminalInputHandlers.size).toBe(0);
+        expect(execFileAsyncMock).not.toHaveBeenCalled();
+        expect(spawnMock).not.toHaveBeenCalled();
+        expect(setIntervalSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("swallows a late OSC 11 reply split across chunks without querying again", async () => {
+        setPlatform("linux");
+        Object.defineProperty(process.stdout, "isTTY", { value: true, configurable: true });
+
+        await writeConfig({ source: "terminal" });
+
+        const { sessionStart } = await createExtensionRuntime();
+        const { ctx, setThemeMock, terminalInputHandlers } = createContext({ themeName: "dark" });
+        const writeSpy = vi.spyOn(process.stdout, "write").mockImplementation(() => true);
+
+        try {
+            await sessionStart({}, ctx);
+            expect(setThemeMock).not.toHaveBeenCalled();
+            expect(terminalInputHandlers.size).toBe(1);
+
+            await runPollTick();
+            const [handler] = terminalInputHandlers;
+            expect(handler?.("\u001b]")).toEqual({ consume: true });
+            expect(handler?.("11;rgb:fdfd/f6f6/e3e3\u001b\\")).toEqual({ consume: true });
+
+            await vi.waitFor(() => expect(setThemeMock).toHaveBeenCalledWith("light"));
+            expect(writeSpy.mock.calls.filter(([chunk]) => String(chunk) === "\u001b]11;?\u0007")).toHaveLength(1);
+        } finally {
+            writeSpy.mockRestore();
+        }
+
+        expect(terminalInputHandlers.size).toBe(0);
+    });
+
+    it("falls back to COLORFGBG when the terminal does not answer OSC 11", async () => {
+        setPlatform("darwin");
+        Object.defineProperty(process.stdout, "isTTY", { value: false, configurable: true });
+        process.env.COLORFGBG = "15;default;0";
+
+        await writeConfig({ source: "terminal" });
+
+        const { sessionStart } = await createExtensionRuntime();
+        const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+        await sessionStart({}, ctx);
+
+        expect(setThemeMock).toHaveBeenCalledWith("dark");
+        expect(execFileAsyncMock).not.toHaveBeenCalled();
+    });
+
+    it("keeps the theme when the terminal source has no signal", async () => {
+        setPlatform("darwin");
+        Object.defineProperty(process.stdout, "isTTY", { value: false, configurable: true });
+
+        await writeConfig({ source: "terminal" });
+
+        const { sessionStart } = await createExtensionRuntime();
+        const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+        await sessionStart({}, ctx);
+
+        expect(setThemeMock).not.toHaveBeenCalled();
+    });
+
+    describe("schedule source", () => {
+        async function detectScheduledTheme(now: Date, initialTheme = "dark"): Promise<string | undefined> {
+            vi.useFakeTimers({ toFake: ["Date"] });
+            vi.setSystemTime(now);
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx } = createContext({ themeName: initialTheme });
+
+            await sessionStart({}, ctx);
+            return ctx.ui.theme.name;
+        }
+
+        it("follows fixed lightAt/darkAt times", async () => {
+            await writeConfig({ source: "schedule", schedule: { lightAt: "07:00", darkAt: "19:30" } });
+
+            expect(await detectScheduledTheme(new Date(2026, 0, 15, 6, 59))).toBe("dark");
+            expect(await detectScheduledTheme(new Date(2026, 0, 15, 7, 0))).toBe("light");
+            expect(await detectScheduledTheme(new Date(2026, 0, 15, 19, 29))).toBe("light");
+            expect(await detectScheduledTheme(new Date(2026, 0, 15, 19, 30), "light")).toBe("dark");
+            expect(execFileAsyncMock).not.toHaveBeenCalled();
+        });
+
+        it("handles light periods that wrap past midnight", async () => {
+            await writeConfig({ source: "schedule", schedule: { lightAt: "22:00", darkAt: "06:00" } });
+
+            expect(await detectScheduledTheme(new Date(2026, 0, 15, 23, 0))).toBe("light");
+            expect(await detectScheduledTheme(new Date(2026, 0, 15, 3, 0))).toBe("light");
+            expect(await detectScheduledTheme(new Date(2026, 0, 15, 12, 0), "light")).toBe("dark");
+        });
+
+        it("computes sunrise and sunset from latitude/longitude", async () => {
+            // Berlin, summer solstice: sunrise ~02:43 UTC, sunset ~19:33 UTC.
+            await writeConfig({ source: "schedule", schedule: { latitude: 52.52, longitude: 13.405 } });
+
+            expect(await detectScheduledTheme(new Date("2026-06-21T02:30:00Z"), "light")).toBe("dark");
+            expect(await detectScheduledTheme(new Date("2026-06-21T03:00:00Z"))).toBe("light");
+            expect(await detectScheduledTheme(new Date("2026-06-21T19:20:00Z"))).toBe("light");
+            expect(await detectScheduledTheme(new Date("2026-06-21T19:45:00Z"), "light")).toBe("dark");
+        });
+
+        it("computes sunrise and sunset west of Greenwich", async () => {
+            // San Francisco, winter solstice: sunrise ~15:21 UTC, sunset ~00:55 UTC (next day).
+            await writeConfig({ source: "schedule", schedule: { latitude: 37.7749, longitude: -122.4194 } });
+
+            expect(await detectScheduledTheme(new Date("2026-12-21T15:10:00Z"), "light")).toBe("dark");
+            expect(await detectScheduledTheme(new Date("2026-12-21T15:35:00Z"))).toBe("light");
+            expect(await detectScheduledTheme(new Date("2026-12-22T00:45:00Z"))).toBe("light");
+            expect(await detectScheduledTheme(new Date("2026-12-22T01:05:00Z"), "light")).toBe("dark");
+        });
+
+        it("handles polar day and polar night", async () => {
+            // Tromsø has midnight sun in June and polar night in December.
+            await writeConfig({ source: "schedule", schedule: { latitude: 69.65, longitude: 18.96 } });
+
+            expect(await detectScheduledTheme(new Date("2026-06-21T23:30:00Z"))).toBe("light");
+            expect(await detectScheduledTheme(new Date("2026-12-21T11:00:00Z"), "light")).toBe("dark");
+        });
+
+        it("falls back to the schedule when OS detection fails", async () => {
+            setPlatform("darwin");
+            execFileAsyncMock.mockRejectedValue(new Error("defaults timed out"));
+
+            await writeConfig({ schedule: { lightAt: "07:00", darkAt: "19:00" } });
+
+            expect(await detectScheduledTheme(new Date(2026, 0, 15, 21, 0), "light")).toBe("dark");
+            expect(execFileAsyncMock).toHaveBeenCalled();
+        });
+
+        it("prefers OS detection over the schedule when it succeeds", async () => {
+            setPlatform("darwin");
+            execFileAsyncMock.mockResolvedValue({ stdout: "Dark\n" });
+
+            await writeConfig({ schedule: { lightAt: "07:00", darkAt: "19:00" } });
+
+            expect(await detectScheduledTheme(new Date(2026, 0, 15, 12, 0))).toBe("dark");
+        });
+
+        it("polls instead of monitoring when a schedule is configured", async () => {
+            setPlatform("linux");
+            process.env.XDG_CURRENT_DESKTOP = "GNOME";
+
+            await writeConfig({ schedule: { lightAt: "07:00", darkAt: "19:00" } });
+
+            await detectScheduledTheme(new Date(2026, 0, 15, 12, 0));
+
+            expect(spawnMock).not.toHaveBeenCalled();
+            expect(setIntervalSpy).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("subcommands", () => {
+        function mockMacAppearance(getAppearance: () => string): void {
+            execFileAsyncMock.mockImplementation(async (file) => {
+                if (file !== "/usr/bin/defaults") {
+                    throw new Error(`Unexpected command: ${file}`);
+                }
+
+                return { stdout: `${getAppearance()}\n` };
+            });
+        }
+
+        it("forces dark or light for the session and keeps it across polls", async () => {
+            setPlatform("darwin");
+            mockMacAppearance(() => "Light");
+
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx, notifyMock } = createContext({ themeName: "dark" });
+
+            await sessionStart({}, ctx);
+            expect(ctx.ui.theme.name).toBe("light");
+
+            await runCommand("dark", ctx);
+            expect(ctx.ui.theme.name).toBe("dark");
+            expect(String(notifyMock.mock.calls.at(-1)?.[0])).toContain("auto");
+
+            await runPollTick();
+            expect(ctx.ui.theme.name).toBe("dark");
+        });
+
+        it("toggles to the other appearance", async () => {
+            setPlatform("darwin");
+            mockMacAppearance(() => "Dark");
+
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx } = createContext({ themeName: "dark" });
+
+            await sessionStart({}, ctx);
+
+            await runCommand("toggle", ctx);
+            expect(ctx.ui.theme.name).toBe("light");
+
+            await runCommand(" TOGGLE ", ctx);
+            expect(ctx.ui.theme.name).toBe("dark");
+        });
+
+        it("resumes syncing with auto", async () => {
+            setPlatform("darwin");
+            mockMacAppearance(() => "Dark");
+
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx } = createContext({ themeName: "dark" });
+
+            await sessionStart({}, ctx);
+            await runCommand("light", ctx);
+            expect(ctx.ui.theme.name).toBe("light");
+
+            await runCommand("auto", ctx);
+            expect(ctx.ui.theme.name).toBe("dark");
+        });
+
+        it("resets overrides and restores the original theme", async () => {
+            setPlatform("darwin");
+            mockMacAppearance(() => "Dark");
+
+            await writeConfig({ darkTheme: "rose-pine", lightTheme: "rose-pine-dawn" });
+
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx, notifyMock } = createContext({ themeName: "my-custom-theme" });
+
+            await sessionStart({}, ctx);
+            expect(ctx.ui.theme.name).toBe("rose-pine");
+
+            await runCommand("reset", ctx);
+
+            expect(await configExists()).toBe(false);
+            expect(ctx.ui.theme.name).toBe("my-custom-theme");
+            expect(String(notifyMock.mock.calls.at(-1)?.[0])).toContain("my-custom-theme");
+        });
+
+        it("keeps the other global settings on reset", async () => {
+            setPlatform("darwin");
+            mockMacAppearance(() => "Dark");
+
+            await writeConfig({
+                $schema: "./system-theme.schema.json",
+                version: 1,
+                darkTheme: "rose-pine",
+                highContrastDarkTheme: "high-contrast-dark",
+                pollMs: 3000,
+                onSwitch: [{ command: ["notify-send", "switched"], timeoutMs: 5000 }],
+            });
+
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+            await runCommand("reset", ctx);
+
+            expect(await readJson(getConfigPath())).toEqual({
+                $schema: "./system-theme.schema.json",
+                version: 1,
+                pollMs: 3000,
+                onSwitch: [{ command: ["notify-send", "switched"], timeoutMs: 5000 }],
+            });
+        });
+
+        it("prints help for unknown arguments", async () => {
+            setPlatform("darwin");
+
+            const { runCommand } = await createExtensionRuntime();
+            const { ctx, setThemeMock, notifyMock } = createContext({ themeName: "dark" });
+
+            await runCommand("sepia", ctx);
+
+            expect(setThemeMock).not.toHaveBeenCalled();
+            expect(notifyMock).toHaveBeenCalledTimes(1);
+            expect(notifyMock.mock.calls[0]?.[1]).toBe("warning");
+            expect(String(notifyMock.mock.calls[0]?.[0])).toContain("/system-theme toggle");
+        });
+    });
+
+    describe("layered config", () => {
+        beforeEach(() => {
+            setPlatform("darwin");
+            execFileAsyncMock.mockResolvedValue({ stdout: "Dark\n" });
+        });
+
+        it("lets the project config override the global config", async () => {
+            await writeConfig({ darkTheme: "rose-pine", lightTheme: "rose-pine-dawn" });
+            await writeProjectConfig({ darkTheme: "high-contrast-dark" });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({
+                themeName: "light",
+                themes: ["dark", "light", "rose-pine", "high-contrast-dark"],
+            });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("high-contrast-dark");
+        });
+
+        it("lets environment variables override both files", async () => {
+            await writeConfig({ darkTheme: "rose-pine", pollMs: 3000 });
+            await writeProjectConfig({ darkTheme: "high-contrast-dark" });
+            process.env.PI_SYSTEM_THEME_DARK = "env-dark";
+            process.env.PI_SYSTEM_THEME_POLL_MS = "5000";
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("env-dark");
+            expect(setIntervalSpy.mock.calls[0]?.[1]).toBe(5000);
+        });
+
+        it("ignores invalid environment values", async () => {
+            await writeConfig({ pollMs: 3000 });
+            process.env.PI_SYSTEM_THEME_POLL_MS = "soon";
+            process.env.PI_SYSTEM_THEME_DARK = "   ";
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("dark");
+            expect(setIntervalSpy.mock.calls[0]?.[1]).toBe(3000);
+        });
+
+        it("shows the source layer of each value in the menu", async () => {
+            await writeConfig({ darkTheme: "rose-pine" });
+            await writeProjectConfig({ lightTheme: "rose-pine-dawn" });
+            process.env.PI_SYSTEM_THEME_POLL_MS = "4000";
+
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx, selectMock } = createContext({ themeName: "rose-pine", selectAnswers: ["Cancel"] });
+
+            await sessionStart({}, ctx);
+            await runCommand("", ctx);
+
+            const options = selectMock.mock.calls[0]?.[1] as string[];
+            expect(options).toContain("Dark theme: rose-pine (global)");
+            expect(options).toContain("Light theme: rose-pine-dawn (project)");
+            expect(options).toContain("Poll interval (ms): 4000 (env)");
+            expect(options).toContain("Appearance source: system (default)");
+        });
+
+        it("saves only the project-level differences to the project layer", async () => {
+            await writeConfig({ darkTheme: "rose-pine", lightTheme: "rose-pine-dawn" });
+            process.env.PI_SYSTEM_THEME_POLL_MS = "4000";
+
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx } = createContext({
+                themeName: "rose-pine",
+                selectAnswers: ["Save to:", "Dark theme:", "Save and apply"],
+                customKeys: [[KEY_DOWN, KEY_DOWN, KEY_ENTER]],
+                inputAnswers: ["high-contrast-dark"],
+            });
+
+            await sessionStart({}, ctx);
+            await runCommand("", ctx);
+
+            expect(await readJson(getProjectConfigPath())).toEqual({ version: 1, darkTheme: "high-contrast-dark" });
+            expect(await readJson(getConfigPath())).toEqual({
+                darkTheme: "rose-pine",
+                lightTheme: "rose-pine-dawn",
+            });
+            expect(ctx.ui.theme.name).toBe("high-contrast-dark");
+        });
+
+        it("keeps project values out of the global file when saving there", async () => {
+            await writeConfig({ darkTheme: "rose-pine" });
+            await writeProjectConfig({ darkTheme: "high-contrast-dark" });
+
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx } = createContext({
+                themeName: "dark",
+                themes: ["dark", "light", "rose-pine", "rose-pine-dawn", "high-contrast-dark"],
+                selectAnswers: ["Light theme:", "Save and apply"],
+                customKeys: [[KEY_DOWN, KEY_DOWN, KEY_ENTER]],
+            });
+
+            await sessionStart({}, ctx);
+            await runCommand("", ctx);
+
+            expect(await readJson(getConfigPath())).toEqual({
+                version: 1,
+                darkTheme: "rose-pine",
+                lightTheme: "rose-pine-dawn",
+            });
+            expect(await readJson(getProjectConfigPath())).toEqual({ darkTheme: "high-contrast-dark" });
+        });
+
+        it("keeps a stored value that an environment variable overrides when saving", async () => {
+            await writeConfig({ darkTheme: "rose-pine" });
+            process.env.PI_SYSTEM_THEME_DARK = "env-dark";
+
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx } = createContext({
+                themeName: "dark",
+                selectAnswers: ["Light theme:", "Save and apply"],
+                customKeys: [[KEY_DOWN, KEY_DOWN, KEY_ENTER]],
+            });
+
+            await sessionStart({}, ctx);
+            await runCommand("", ctx);
+
+            expect(await readJson(getConfigPath())).toEqual({
+                version: 1,
+                darkTheme: "rose-pine",
+                lightTheme: "rose-pine-dawn",
+            });
+        });
+
+        it("saves to the global layer by default", async () => {
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx } = createContext({
+                themeName: "dark",
+                selectAnswers: ["Light theme:", "Save and apply"],
+                customKeys: [[KEY_DOWN, KEY_DOWN, KEY_ENTER]],
+            });
+
+            await sessionStart({}, ctx);
+            await runCommand("", ctx);
+
+            expect(await readJson(getConfigPath())).toEqual({ version: 1, lightTheme: "rose-pine-dawn" });
+            expect(await configExists()).toBe(true);
+        });
+    });
+
+    describe("hysteresis and failure backoff", () => {
+        let macAppearance: string | Error = "Dark";
+
+        beforeEach(() => {
+            setPlatform("darwin");
+            macAppearance = "Dark";
+
+            execFileAsyncMock.mockImplementation(async (file) => {
+                if (file !== "/usr/bin/defaults") {
+                    throw new Error(`Unexpected command: ${file}`);
+                }
+
+                if (macAppearance instanceof Error) {
+                    throw macAppearance;
+                }
+
+                return { stdout: `${macAppearance}\n` };
+            });
+        });
+
+        it("switches only after stablePolls identical detections", async () => {
+            await writeConfig({ stablePolls: 3 });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+            expect(ctx.ui.theme.name).toBe("dark");
+
+            macAppearance = "Light";
+            await runPollTick();
+            await runPollTick();
+            expect(ctx.ui.theme.name).toBe("dark");
+
+            await runPollTick();
+            expect(ctx.ui.theme.name).toBe("light");
+            expect(setThemeMock).toHaveBeenCalledTimes(2);
+        });
+
+        it("confirms a change seen by a Linux monitor without waiting for another event", async () => {
+            setPlatform("linux");
+            process.env.XDG_CURRENT_DESKTOP = "GNOME";
+            await writeConfig({ stablePolls: 2, pollMs: 500 });
+
+            let colorScheme = "'prefer-light'";
+            execFileAsyncMock.mockImplementation(async (file, args) => {
+                if (file === "gsettings" && getGSettingsKey(args) === "color-scheme") {
+                    return { stdout: `${colorScheme}\n` };
+                }
+
+                throw new Error(`Unexpected command: ${file}`);
+            });
+            const child = createFakeChildProcess();
+            spawnMock.mockReturnValue(child);
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+            expect(setIntervalSpy).not.toHaveBeenCalled();
+
+            colorScheme = "'prefer-dark'";
+            child.stdout.write("color-scheme: 'prefer-dark'\n");
+            await vi.waitFor(() => expect(getCommandCalls("gsettings")).toHaveLength(2));
+            expect(ctx.ui.theme.name).toBe("light");
+
+            await vi.waitFor(() => expect(ctx.ui.theme.name).toBe("dark"), { timeout: 2000 });
+        });
+
+        it("ignores flapping detections that never stabilize", async () => {
+            await writeConfig({ stablePolls: 2 });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "dark" });
+
+            await sessionStart({}, ctx);
+
+            for (const next of ["Light", "Dark", "Light", "Dark"]) {
+                macAppearance = next;
+                await runPollTick();
+            }
+
+            expect(ctx.ui.theme.name).toBe("dark");
+            expect(setThemeMock).not.toHaveBeenCalled();
+        });
+
+        it("backs off the poll interval on repeated failures and resets on recovery", async () => {
+            await writeConfig({ maxBackoffMs: 10000 });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx } = createContext({ themeName: "dark" });
+
+            await sessionStart({}, ctx);
+            expect(setIntervalSpy.mock.calls.map((call) => call[1])).toEqual([2000]);
+
+            macAppearance = new Error("gsettings timed out");
+            await runPollTick();
+            await runPollTick();
+            await runPollTick();
+            await runPollTick();
+
+            expect(setIntervalSpy.mock.calls.map((call) => call[1])).toEqual([2000, 4000, 8000, 10000]);
+
+            macAppearance = "Dark";
+            await runPollTick();
+
+            expect(setIntervalSpy.mock.calls.map((call) => call[1])).toEqual([2000, 4000, 8000, 10000, 2000]);
+            expect(clearIntervalSpy).toHaveBeenCalledTimes(4);
+        });
+    });
+
+    describe("status", () => {
+        it("reports detection output, config sources and sync state", async () => {
+            setPlatform("darwin");
+            execFileAsyncMock.mockResolvedValue({ stdout: "Dark\n" });
+            await writeConfig({ darkTheme: "rose-pine" });
+
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx, notifyMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+            await runCommand("status", ctx);
+
+            const report = String(notifyMock.mock.calls.at(-1)?.[0]);
+            expect(report).toContain("Platform: darwin");
+            expect(report).toContain("defaults | $ /usr/bin/defaults read -g AppleInterfaceStyle | exit 0");
+            expect(report).toContain('output "Dark"');
+            expect(report).toContain("Parsed appearance: dark");
+            expect(report).toContain('darkTheme: "rose-pine" (global)');
+            expect(report).toContain('lightTheme: "light" (default)');
+            expect(report).toContain("Auto-sync: active");
+            expect(report).toContain("Last switch: rose-pine at");
+            expect(report).toContain("Last setTheme error: none");
+            expect(report).toContain("Change tracking: polling every 2000 ms");
+        });
+
+        it("explains why auto-sync is inactive and shows failed commands", async () => {
+            setPlatform("win32");
+            execFileAsyncMock.mockRejectedValue(
+                Object.assign(new Error("Command failed: reg query"), { code: 1, stderr: "ERROR: not found\n" }),
+            );
+
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx, notifyMock } = createContext({ themeName: "my-custom-theme" });
+
+            await sessionStart({}, ctx);
+            await runCommand("status", ctx);
+
+            const report = String(notifyMock.mock.calls.at(-1)?.[0]);
+            expect(report).toContain("registry | $ reg query");
+            expect(report).toContain('exit 1 | output "ERROR: not found" | -> unknown');
+            expect(report).toContain("Parsed appearance: unknown");
+            expect(report).toContain('Auto-sync: inactive: current theme "my-custom-theme" is custom');
+            expect(report).toContain("Change tracking: stopped");
+        });
+
+        it("reports the last setTheme error", async () => {
+            setPlatform("darwin");
+            execFileAsyncMock.mockResolvedValue({ stdout: "Dark\n" });
+            await writeConfig({ darkTheme: "missing-theme" });
+
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx, setThemeMock, notifyMock } = createContext({ themeName: "light" });
+            setThemeMock.mockReturnValue({ success: false, error: "Theme not found" });
+
+            const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+            try {
+                await sessionStart({}, ctx);
+            } finally {
+                warnSpy.mockRestore();
+            }
+
+            await runCommand("status", ctx);
+
+            const report = String(notifyMock.mock.calls.at(-1)?.[0]);
+            expect(report).toContain('Last setTheme error: "missing-theme": Theme not found');
+            expect(report).toContain("Last switch: none this session");
+        });
+    });
+
+    describe("theme picker", () => {
+        beforeEach(() => {
+            setPlatform("darwin");
+            execFileAsyncMock.mockResolvedValue({ stdout: "Dark\n" });
+        });
+
+        it("previews highlighted themes and saves the chosen one", async () => {
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({
+                themeName: "dark",
+                selectAnswers: ["Dark theme:", "Save and apply"],
+                customKeys: [[KEY_DOWN, KEY_DOWN, KEY_ENTER]],
+            });
+
+            await sessionStart({}, ctx);
+            await runCommand("", ctx);
+
+            expect(setThemeMock.mock.calls.map((call) => call[0])).toEqual(
+                expect.arrayContaining(["light", "rose-pine"]),
+            );
+            expect(await readJson(getConfigPath())).toEqual({ version: 1, darkTheme: "rose-pine" });
+            expect(ctx.ui.theme.name).toBe("rose-pine");
+        });
+
+        it("does not let a poll replace the previewed theme", async () => {
+            // enforce switches back to the mapped theme on any poll that sees another one.
+            await writeConfig({ manualOverride: "enforce" });
+
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            let themeAfterPoll: string | undefined;
+            const { ctx } = createContext({
+                themeName: "dark",
+                selectAnswers: ["Dark theme:", "Cancel"],
+                customKeys: [
+                    [
+                        KEY_DOWN,
+                        async () => {
+                            await runPollTick();
+                            themeAfterPoll = ctx.ui.theme.name;
+                        },
+                        KEY_ESCAPE,
+                    ],
+                ],
+            });
+
+            await sessionStart({}, ctx);
+            await runCommand("", ctx);
+
+            expect(themeAfterPoll).toBe("light");
+            expect(ctx.ui.theme.name).toBe("dark");
+        });
+
+        it("restores the exact original theme when the picker is cancelled", async () => {
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({
+                themeName: "dark",
+                selectAnswers: ["Dark theme:", "Cancel"],
+                customKeys: [[KEY_DOWN, KEY_DOWN, KEY_ESCAPE]],
+            });
+
+            await sessionStart({}, ctx);
+            const originalTheme = ctx.ui.theme;
+
+            await runCommand("", ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("rose-pine");
+            expect(ctx.ui.theme).toBe(originalTheme);
+            expect(await configExists()).toBe(false);
+        });
+
+        it("restores the exact original theme when the menu is cancelled after choosing", async () => {
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({
+                themeName: "dark",
+                selectAnswers: ["Light theme:", "Cancel"],
+                customKeys: [[KEY_DOWN, KEY_ENTER]],
+            });
+
+            await sessionStart({}, ctx);
+            const originalTheme = ctx.ui.theme;
+
+            await runCommand("", ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("rose-pine");
+            expect(ctx.ui.theme).toBe(originalTheme);
+            expect(await configExists()).toBe(false);
+        });
+
+        it("keeps a free-text entry for themes that are not listed", async () => {
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx } = createContext({
+                themeName: "dark",
+                selectAnswers: ["Light theme:", "Save and apply"],
+                customKeys: [[KEY_UP, KEY_UP, KEY_ENTER]],
+                inputAnswers: ["solarized-light"],
+            });
+
+            await sessionStart({}, ctx);
+            await runCommand("", ctx);
+
+            expect(await readJson(getConfigPath())).toEqual({ version: 1, lightTheme: "solarized-light" });
+            expect(ctx.ui.theme.name).toBe("dark");
+        });
+    });
+
+    describe("theme validation", () => {
+        beforeEach(() => {
+            setPlatform("darwin");
+            execFileAsyncMock.mockResolvedValue({ stdout: "Dark\n" });
+        });
+
+        it("warns about uninstalled themes on session start and suggests close matches", async () => {
+            await writeConfig({ darkTheme: "rosepine", lightTheme: "light" });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, notifyMock, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+
+            expect(notifyMock).toHaveBeenCalledWith(
+                'darkTheme "rosepine" is not installed. Did you mean "rose-pine"?',
+                "warning",
+            );
+            expect(setThemeMock).toHaveBeenCalledWith("rosepine");
+        });
+
+        it("falls back to the built-in theme when enabled", async () => {
+            await writeConfig({ darkTheme: "nord", lightTheme: "light", fallbackToBuiltinThemes: true });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, notifyMock, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+
+            expect(notifyMock).toHaveBeenCalledWith('darkTheme "nord" is not installed; using "dark".', "warning");
+            expect(setThemeMock).toHaveBeenCalledWith("dark");
+            expect(setThemeMock).not.toHaveBeenCalledWith("nord");
+        });
+
+        it("validates theme names after saving from the menu", async () => {
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx, notifyMock } = createContext({
+                themeName: "dark",
+                selectAnswers: ["Light theme:", "Save and apply"],
+                customKeys: [[KEY_UP, KEY_UP, KEY_ENTER]],
+                inputAnswers: ["Rose_Pine_Dawn"],
+            });
+
+            await sessionStart({}, ctx);
+            expect(notifyMock).not.toHaveBeenCalledWith(expect.stringContaining("not installed"), "warning");
+
+            await runCommand("", ctx);
+
+            expect(notifyMock).toHaveBeenCalledWith(
+                'lightTheme "Rose_Pine_Dawn" is not installed. Did you mean "rose-pine-dawn", "rose-pine"?',
+                "warning",
+            );
+        });
+    });
+
+    describe("config schema", () => {
+        beforeEach(() => {
+            setPlatform("darwin");
+            execFileAsyncMock.mockResolvedValue({ stdout: "Dark\n" });
+        });
+
+        it("warns about unknown keys and invalid values but applies the valid ones", async () => {
+            await writeConfig({ darkTheme: "rose-pine", pollMS: 5000, stablePolls: "two" });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, notifyMock, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("rose-pine");
+            expect(setIntervalSpy.mock.calls[0]?.[1]).toBe(2000);
+            expect(notifyMock).toHaveBeenCalledWith(
+                [
+                    "pi-system-theme config problems:",
+                    `${getConfigPath()}: Unknown key "pollMS" (did you mean "pollMs"?).`,
+                    `${getConfigPath()}: stablePolls: expected a number from 1 to 10, got "two".`,
+                ].join("\n"),
+                "warning",
+            );
+        });
+
+        it("reads files from a newer config version with a warning", async () => {
+            await writeConfig({ version: 99, darkTheme: "rose-pine" });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, notifyMock, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("rose-pine");
+            expect(notifyMock).toHaveBeenCalledWith(
+                expect.stringContaining("Written for config version 99; this release understands up to 1."),
+                "warning",
+            );
+        });
+
+        it("does not save over a file from a newer config version", async () => {
+            const stored = { version: 99, darkTheme: "rose-pine", futureKey: true };
+            await writeConfig(stored);
+
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx, notifyMock } = createContext({
+                themeName: "light",
+                selectAnswers: ["Light theme:", "Save and apply"],
+                customKeys: [[KEY_UP, KEY_UP, KEY_ENTER]],
+                inputAnswers: ["rose-pine-dawn"],
+            });
+            await sessionStart({}, ctx);
+            await runCommand("", ctx);
+
+            expect(await readJson(getConfigPath())).toEqual(stored);
+            expect(notifyMock).toHaveBeenCalledWith(
+                `Failed to save config: ${getConfigPath()} is written for config version 99; this release understands up to 1, so it was left unchanged.`,
+                "error",
+            );
+        });
+
+        it("accepts unversioned files without warnings", async () => {
+            await writeConfig({ darkTheme: "rose-pine" });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, notifyMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+
+            expect(notifyMock).not.toHaveBeenCalled();
+        });
+
+        it("ships a JSON schema whose properties and defaults the loader accepts", async () => {
+            const schema = JSON.parse(
+                await readFile(new URL("./system-theme.schema.json", import.meta.url), "utf8"),
+            ) as {
+                properties: Record<string, { default?: unknown }>;
+            };
+            const defaults = Object.fromEntries(
+                Object.entries(schema.properties)
+                    .filter(([, property]) => "default" in property)
+                    .map(([key, property]) => [key, property.default]),
+            );
+            expect(Object.keys(defaults)).toHaveLength(20);
+            await writeConfig({ version: 1, ...defaults });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, notifyMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+
+            expect(notifyMock).not.toHaveBeenCalled();
+        });
+
+        it("writes the current version and keeps $schema when saving", async () => {
+            await writeConfig({ $schema: "./system-theme.schema.json", darkTheme: "rose-pine" });
+
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx, notifyMock } = createContext({
+                themeName: "light",
+                selectAnswers: ["Light theme:", "Save and apply"],
+                customKeys: [[KEY_DOWN, KEY_DOWN, KEY_ENTER]],
+            });
+
+            await sessionStart({}, ctx);
+            await runCommand("", ctx);
+
+            expect(await readJson(getConfigPath())).toEqual({
+                $schema: "./system-theme.schema.json",
+                version: 1,
+                darkTheme: "rose-pine",
+                lightTheme: "rose-pine-dawn",
+            });
+            expect(notifyMock).not.toHaveBeenCalledWith(expect.anything(), "warning");
+        });
+    });
+
+    describe("config hot reload", () => {
+        beforeEach(() => {
+            setPlatform("darwin");
+            execFileAsyncMock.mockResolvedValue({ stdout: "Dark\n" });
+        });
+
+        it("applies edits to the global config file without a restart", async () => {
+            await writeConfig({ darkTheme: "rose-pine" });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+            expect(ctx.ui.theme.name).toBe("rose-pine");
+
+            await writeConfig({ darkTheme: "rose-pine-dawn" });
+
+            await vi.waitFor(() => expect(setThemeMock).toHaveBeenCalledWith("rose-pine-dawn"), { timeout: 2000 });
+            expect(ctx.ui.theme.name).toBe("rose-pine-dawn");
+        });
+
+        it("keeps the previous config and warns when the file no longer parses", async () => {
+            await writeConfig({ darkTheme: "rose-pine" });
+
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx, notifyMock, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+            await writeFile(getConfigPath(), '{ "darkTheme": ', "utf8");
+
+            await vi.waitFor(
+                () =>
+                    expect(notifyMock).toHaveBeenCalledWith(
+                        expect.stringContaining("Keeping the previous system-theme config."),
+                        "warning",
+                    ),
+                { timeout: 2000 },
+            );
+
+            await runCommand("dark", ctx);
+            expect(setThemeMock).toHaveBeenCalledTimes(1);
+            expect(ctx.ui.theme.name).toBe("rose-pine");
+        });
+
+        it("reverts to the defaults when the file is deleted", async () => {
+            await writeConfig({ darkTheme: "rose-pine" });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+            await rm(getConfigPath());
+
+            await vi.waitFor(() => expect(setThemeMock).toHaveBeenLastCalledWith("dark"), { timeout: 2000 });
+        });
+
+        it("stops watching on session shutdown", async () => {
+            await writeConfig({ darkTheme: "rose-pine" });
+
+            const { sessionStart, sessionShutdown } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+            await sessionShutdown();
+            await writeConfig({ darkTheme: "rose-pine-dawn" });
+            await new Promise((resolve) => setTimeout(resolve, 400));
+
+            expect(setThemeMock).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("appearance events", () => {
+        beforeEach(() => {
+            setPlatform("darwin");
+        });
+
+        it("publishes the first appearance and later flips with old and new themes", async () => {
+            execFileAsyncMock.mockResolvedValue({ stdout: "Dark\n" });
+
+            const { sessionStart, events } = await createExtensionRuntime();
+            const { ctx } = createContext({ themeName: "light" });
+            const received: unknown[] = [];
+            events.on("system-theme:appearance", (data) => received.push(data));
+
+            await sessionStart({}, ctx);
+
+            execFileAsyncMock.mockRejectedValue({ stderr: "The domain/default pair does not exist" });
+            await runPollTick();
+            await runPollTick();
+
+            expect(received).toEqual([
+                {
+                    previousAppearance: null,
+                    appearance: "dark",
+                    previousTheme: "light",
+                    theme: "dark",
+                    highContrast: false,
+                    detectedBy: ["system"],
+                },
+                {
+                    previousAppearance: "dark",
+                    appearance: "light",
+                    previousTheme: "dark",
+                    theme: "light",
+                    highContrast: false,
+                    detectedBy: ["system"],
+                },
+            ]);
+        });
+
+        it("answers queries with the last detected appearance", async () => {
+            execFileAsyncMock.mockResolvedValue({ stdout: "Dark\n" });
+
+            const { sessionStart, runCommand, events } = await createExtensionRuntime();
+            const { ctx } = createContext({ themeName: "dark" });
+            const query = () => {
+                let state: unknown;
+                events.emit("system-theme:query", { reply: (value: unknown) => (state = value) });
+                return state;
+            };
+
+            expect(query()).toEqual({ appearance: null, highContrast: false, forced: false, detectedBy: [] });
+
+            await sessionStart({}, ctx);
+            expect(query()).toEqual({ appearance: "dark", highContrast: false, forced: false, detectedBy: ["system"] });
+
+            await runCommand("light", ctx);
+            expect(query()).toEqual({ appearance: "light", highContrast: false, forced: true, detectedBy: [] });
+        });
+    });
+
+    describe("detector chain", () => {
+        it("runs the configured detectors in order and reports which one answered", async () => {
+            setPlatform("linux");
+            process.env.XDG_CURRENT_DESKTOP = "KDE";
+            await writeKdeGlobals("[General]\nColorScheme=BreezeLight\n");
+            await writeConfig({ detectors: ["env", "portal", "gsettings", "terminal", "schedule"] });
+
+            execFileAsyncMock.mockImplementation(async (file, args) => {
+                if (file === "gsettings" && getGSettingsKey(args) === "color-scheme") {
+                    return { stdout: "'prefer-dark'\n" };
+                }
+
+                throw new Error(`Unexpected command: ${file}`);
+            });
+
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx, setThemeMock, notifyMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+            await runCommand("status", ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("dark");
+            expect(getCommandCalls("gdbus")).toHaveLength(2);
+            expect(getCommandCalls("busctl")).toHaveLength(2);
+            // The terminal detector needs polling even though it never ran.
+            expect(spawnMock).not.toHaveBeenCalled();
+            expect(setIntervalSpy).toHaveBeenCalledTimes(1);
+
+            const report = String(notifyMock.mock.calls.at(-1)?.[0]);
+            expect(report).toContain("Detectors: env, portal, gsettings, terminal, schedule (first)");
+            expect(report).toContain("Parsed appearance: dark (from gsettings)");
+            expect(report).not.toContain("kdeglobals");
+        });
+
+        it("skips detectors for other platforms", async () => {
+            setPlatform("darwin");
+            await writeConfig({ detectors: ["registry", "portal", "defaults"] });
+            execFileAsyncMock.mockResolvedValue({ stdout: "Dark\n" });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("dark");
+            expect(execFileAsyncMock).toHaveBeenCalledTimes(1);
+            expect(getCommandCalls("/usr/bin/defaults")).toHaveLength(1);
+        });
+
+        it("lets the majority decide and breaks ties by priority", async () => {
+            setPlatform("linux");
+            let commandOutput = "dark";
+            await writeConfig({
+                detectors: ["portal", "gsettings", "command"],
+                detectorPolicy: "majority",
+                detectCommand: "my-detector",
+            });
+
+            execFileAsyncMock.mockImplementation(async (file, args) => {
+                if (file === "gdbus") {
+                    return { stdout: "(<uint32 2>,)\n" };
+                }
+
+                if (file === "gsettings" && getGSettingsKey(args) === "color-scheme") {
+                    return { stdout: "'prefer-dark'\n" };
+                }
+
+                if (file === "my-detector") {
+                    return { stdout: `${commandOutput}\n` };
+                }
+
+                throw new Error(`Unexpected command: ${file}`);
+            });
+
+            const { sessionStart, runCommand, events } = await createExtensionRuntime();
+            const { ctx, setThemeMock, notifyMock } = createContext({ themeName: "light" });
+            const received: Array<{ detectedBy?: unknown }> = [];
+            events.on("system-theme:appearance", (data) => received.push(data as { detectedBy?: unknown }));
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenLastCalledWith("dark");
+            expect(received.at(-1)?.detectedBy).toEqual(["gsettings", "command"]);
+
+            commandOutput = "unknown";
+            await runCommand("status", ctx);
+
+            // One vote each: the portal has the higher priority.
+            expect(String(notifyMock.mock.calls.at(-1)?.[0])).toContain("Parsed appearance: light (from portal)");
+        });
+
+        it("applies fallbackAppearance when every detector comes back empty", async () => {
+            setPlatform("darwin");
+            await writeConfig({ fallbackAppearance: "dark" });
+            execFileAsyncMock.mockRejectedValue(new Error("defaults crashed"));
+
+            const { sessionStart, events } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "light" });
+            const received: Array<{ detectedBy?: unknown }> = [];
+            events.on("system-theme:appearance", (data) => received.push(data as { detectedBy?: unknown }));
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("dark");
+            expect(received.at(-1)?.detectedBy).toEqual(["fallback"]);
+        });
+
+        it("gives up on a detector after its timeout and passes the timeout to its commands", async () => {
+            setPlatform("darwin");
+            await writeConfig({
+                detectors: [{ name: "command", timeoutMs: 500 }, "defaults"],
+                detectCommand: "slow-detector",
+            });
+
+            execFileAsyncMock.mockImplementation(async (file) => {
+                if (file === "slow-detector") {
+                    return new Promise<never>(() => undefined);
+                }
+
+                return { stdout: "Dark\n" };
+            });
+
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx, setThemeMock, notifyMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("dark");
+            expect(getCommandCalls("slow-detector")[0]?.[2]).toMatchObject({ timeout: 500 });
+            expect(getCommandCalls("/usr/bin/defaults")[0]?.[2]).toMatchObject({ timeout: 1200 });
+
+            await runCommand("status", ctx);
+            expect(String(notifyMock.mock.calls.at(-1)?.[0])).toContain("command | exit timeout (500 ms)");
+        });
+
+        it("applies PI_SYSTEM_APPEARANCE before the chain under the majority policy", async () => {
+            setPlatform("darwin");
+            process.env.PI_SYSTEM_APPEARANCE = "light";
+            await writeConfig({
+                detectors: ["defaults", "command", "env"],
+                detectCommand: "is-dark",
+                detectorPolicy: "majority",
+            });
+            execFileAsyncMock.mockResolvedValue({ stdout: "dark\n" });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "dark" });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("light");
+            expect(execFileAsyncMock).not.toHaveBeenCalled();
+        });
+
+        it("applies PI_SYSTEM_APPEARANCE when a custom chain leaves env out", async () => {
+            setPlatform("darwin");
+            process.env.PI_SYSTEM_APPEARANCE = "dark";
+            await writeConfig({ detectors: ["defaults"] });
+            execFileAsyncMock.mockResolvedValue({ stdout: "Light\n" });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("dark");
+            expect(execFileAsyncMock).not.toHaveBeenCalled();
+        });
+
+        it("rejects unknown detector names", async () => {
+            setPlatform("darwin");
+            await writeConfig({ detectors: ["defaults", "weather"] });
+            execFileAsyncMock.mockResolvedValue({ stdout: "Dark\n" });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, notifyMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+
+            expect(String(notifyMock.mock.calls[0]?.[0])).toContain("detectors: expected null or a non-empty list");
+        });
+    });
+
+    describe("custom detection", () => {
+        it("runs detectCommand before the platform backends", async () => {
+            setPlatform("darwin");
+            await writeConfig({ darkTheme: "rose-pine", detectCommand: ["darkman", "get"] });
+            execFileAsyncMock.mockResolvedValue({ stdout: "dark\n" });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+
+            expect(execFileAsyncMock).toHaveBeenCalledTimes(1);
+            expect(execFileAsyncMock.mock.calls[0]?.[0]).toBe("darkman");
+            expect(execFileAsyncMock.mock.calls[0]?.[1]).toEqual(["get"]);
+            expect(execFileAsyncMock.mock.calls[0]?.[2]).toEqual(expect.objectContaining({ timeout: 1200 }));
+            expect(setThemeMock).toHaveBeenCalledWith("rose-pine");
+        });
+
+        it.each([
+            ["1", "dark"],
+            ["true", "dark"],
+            ["0", "light"],
+            ["FALSE", "light"],
+        ])("parses detectCommand output %s as %s", async (stdout, expected) => {
+            setPlatform("linux");
+            process.env.XDG_CURRENT_DESKTOP = "GNOME";
+            await writeConfig({ detectCommand: "is-dark --quiet" });
+            execFileAsyncMock.mockResolvedValue({ stdout: `${stdout}\n` });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: expected === "dark" ? "light" : "dark" });
+
+            await sessionStart({}, ctx);
+
+            expect(execFileAsyncMock).toHaveBeenCalledWith("is-dark", ["--quiet"], expect.anything());
+            expect(setThemeMock).toHaveBeenCalledWith(expected);
+            expect(spawnMock).not.toHaveBeenCalled();
+        });
+
+        it("falls back to the platform backends when detectCommand fails", async () => {
+            setPlatform("darwin");
+            await writeConfig({ detectCommand: ["darkman", "get"] });
+            execFileAsyncMock.mockImplementation(async (file) => {
+                if (file === "darkman") {
+                    throw Object.assign(new Error("spawn darkman ENOENT"), { code: "ENOENT" });
+                }
+
+                return { stdout: "Dark\n" };
+            });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+
+            expect(getCommandCalls("/usr/bin/defaults")).toHaveLength(1);
+            expect(setThemeMock).toHaveBeenCalledWith("dark");
+        });
+
+        it("short-circuits detection with PI_SYSTEM_APPEARANCE", async () => {
+            setPlatform("darwin");
+            process.env.PI_SYSTEM_APPEARANCE = "light";
+            await writeConfig({ detectCommand: ["darkman", "get"] });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "dark" });
+
+            await sessionStart({}, ctx);
+
+            expect(execFileAsyncMock).not.toHaveBeenCalled();
+            expect(setThemeMock).toHaveBeenCalledWith("light");
+        });
+
+        it("ignores an invalid PI_SYSTEM_APPEARANCE value", async () => {
+            setPlatform("darwin");
+            process.env.PI_SYSTEM_APPEARANCE = "dim";
+            execFileAsyncMock.mockResolvedValue({ stdout: "Dark\n" });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("dark");
+        });
+    });
+
+    describe("appearance file", () => {
+        const getAppearanceFilePath = () => path.join(testHome, "shared", "appearance");
+
+        beforeEach(async () => {
+            setPlatform("darwin");
+            execFileAsyncMock.mockResolvedValue({ stdout: "Dark\n" });
+            await rm(path.dirname(getAppearanceFilePath()), { recursive: true, force: true });
+            await mkdir(path.dirname(getAppearanceFilePath()), { recursive: true });
+        });
+
+        it("reads the appearance from the file before any backend", async () => {
+            await writeFile(getAppearanceFilePath(), "light\n", "utf8");
+            await writeConfig({ appearanceFile: getAppearanceFilePath() });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "dark" });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("light");
+            expect(execFileAsyncMock).not.toHaveBeenCalled();
+        });
+
+        it("accepts JSON content and resolves relative paths against the project", async () => {
+            await mkdir(getProjectDir(), { recursive: true });
+            await writeFile(path.join(getProjectDir(), "appearance.json"), '{ "appearance": "light" }', "utf8");
+            await writeConfig({ appearanceFile: "appearance.json" });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "dark" });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("light");
+        });
+
+        it("falls back to the platform backends when the file is missing", async () => {
+            await writeConfig({ appearanceFile: getAppearanceFilePath() });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("dark");
+            expect(getCommandCalls("/usr/bin/defaults")).toHaveLength(1);
+        });
+
+        it("ignores a file older than appearanceFileMaxAgeMs", async () => {
+            await writeFile(getAppearanceFilePath(), "light", "utf8");
+            const anHourAgo = new Date(Date.now() - 3_600_000);
+            await utimes(getAppearanceFilePath(), anHourAgo, anHourAgo);
+            await writeConfig({ appearanceFile: getAppearanceFilePath(), appearanceFileMaxAgeMs: 60_000 });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("dark");
+        });
+
+        it("re-syncs when the file changes", async () => {
+            await writeFile(getAppearanceFilePath(), "dark", "utf8");
+            await writeConfig({ appearanceFile: getAppearanceFilePath() });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+            expect(setThemeMock).toHaveBeenLastCalledWith("dark");
+            expect(spawnMock).not.toHaveBeenCalled();
+
+            await writeFile(getAppearanceFilePath(), "light", "utf8");
+
+            await vi.waitFor(() => expect(setThemeMock).toHaveBeenLastCalledWith("light"), { timeout: 2000 });
+        });
+    });
+
+    describe("onSwitch hooks", () => {
+        beforeEach(() => {
+            setPlatform("darwin");
+        });
+
+        it("runs hooks with PI_APPEARANCE and PI_THEME on real switches only", async () => {
+            await writeConfig({
+                darkTheme: "rose-pine",
+                onSwitch: ["tmux source-file ~/.tmux.conf", { command: ["nvim-theme", "--sync"], timeoutMs: 2000 }],
+            });
+            execFileAsyncMock.mockImplementation(async (file) => ({
+                stdout: file === "/usr/bin/defaults" ? "Dark\n" : "",
+            }));
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+            await flushAsync();
+
+            expect(execFileAsyncMock).toHaveBeenCalledWith(
+                "tmux",
+                ["source-file", "~/.tmux.conf"],
+                expect.objectContaining({
+                    timeout: 5000,
+                    env: expect.objectContaining({ PI_APPEARANCE: "dark", PI_THEME: "rose-pine" }),
+                }),
+            );
+            expect(getCommandCalls("nvim-theme")[0]?.[2]).toEqual(expect.objectContaining({ timeout: 2000 }));
+
+            await runPollTick();
+            await runPollTick();
+
+            expect(getCommandCalls("tmux")).toHaveLength(1);
+            expect(getCommandCalls("nvim-theme")).toHaveLength(1);
+        });
+
+        it("applies the theme even when a hook fails and reports the failure", async () => {
+            await writeConfig({ darkTheme: "rose-pine", onSwitch: [["bat", "cache", "--build"]] });
+            execFileAsyncMock.mockImplementation(async (file) => {
+                if (file === "bat") {
+                    throw Object.assign(new Error("Command failed"), { code: 1, stderr: "bat: no themes found\n" });
+                }
+
+                return { stdout: "Dark\n" };
+            });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, notifyMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+            expect(ctx.ui.theme.name).toBe("rose-pine");
+
+            await vi.waitFor(() =>
+                expect(notifyMock).toHaveBeenCalledWith(
+                    "onSwitch hook failed:\nbat cache --build (exit 1): bat: no themes found",
+                    "warning",
+                ),
+            );
+        });
+    });
+
+    describe("shared detection", () => {
+        const getLockPath = () => path.join(testHome, ".pi", "agent", "system-theme.lock");
+        const getStatePath = () => path.join(testHome, ".pi", "agent", "system-theme.state.json");
+
+        beforeEach(() => {
+            setPlatform("darwin");
+            execFileAsyncMock.mockResolvedValue({ stdout: "Dark\n" });
+        });
+
+        it("lets one session detect while the others follow its published state", async () => {
+            const leader = await createExtensionRuntime();
+            const { ctx: leaderCtx } = createContext({ themeName: "light" });
+            await leader.sessionStart({}, leaderCtx);
+
+            await vi.waitFor(async () => expect(await readJson(getStatePath())).toMatchObject({ appearance: "dark" }));
+
+            const follower = await createExtensionRuntime();
+            const { ctx: followerCtx, setThemeMock } = createContext({ themeName: "light" });
+            await follower.sessionStart({}, followerCtx);
+            await runPollTick();
+
+            expect(setThemeMock).toHaveBeenCalledWith("dark");
+            expect(getCommandCalls("/usr/bin/defaults")).toHaveLength(1);
+            expect(await readJson(getLockPath())).toMatchObject({ pid: process.pid });
+        });
+
+        it("fails over to a follower when the leader shuts down", async () => {
+            const leader = await createExtensionRuntime();
+            await leader.sessionStart({}, createContext({ themeName: "light" }).ctx);
+            await vi.waitFor(async () => expect(await configExists(getStatePath())).toBe(true));
+
+            const follower = await createExtensionRuntime();
+            await follower.sessionStart({}, createContext({ themeName: "light" }).ctx);
+            expect(getCommandCalls("/usr/bin/defaults")).toHaveLength(1);
+
+            await leader.sessionShutdown();
+
+            await vi.waitFor(() => expect(getCommandCalls("/usr/bin/defaults")).toHaveLength(2), { timeout: 2000 });
+            expect(await configExists(getLockPath())).toBe(true);
+        });
+
+        it("hands detection over when the leader forces an appearance", async () => {
+            let appearance = "Dark";
+            execFileAsyncMock.mockImplementation(async () => ({ stdout: `${appearance}\n` }));
+
+            const leader = await createExtensionRuntime();
+            const { ctx: leaderCtx } = createContext({ themeName: "light" });
+            await leader.sessionStart({}, leaderCtx);
+            const follower = await createExtensionRuntime();
+            const { ctx: followerCtx } = createContext({ themeName: "light" });
+            await follower.sessionStart({}, followerCtx);
+            expect(followerCtx.ui.theme.name).toBe("dark");
+
+            await leader.runCommand("light", leaderCtx);
+            appearance = "Light";
+
+            await vi.waitFor(() => expect(followerCtx.ui.theme.name).toBe("light"), { timeout: 2000 });
+        });
+
+        it("hands detection over when the leader stops syncing", async () => {
+            let appearance = "Dark";
+            execFileAsyncMock.mockImplementation(async () => ({ stdout: `${appearance}\n` }));
+
+            const leader = await createExtensionRuntime();
+            const { ctx: leaderCtx } = createContext({ themeName: "light" });
+            await leader.sessionStart({}, leaderCtx);
+            const leaderTick = setIntervalSpy.mock.calls.at(-1)?.[0] as () => void;
+            const follower = await createExtensionRuntime();
+            const { ctx: followerCtx } = createContext({ themeName: "light" });
+            await follower.sessionStart({}, followerCtx);
+
+            // With the default mappings a custom theme turns auto-sync off for the leader.
+            leaderCtx.ui.theme = { name: "rose-pine" };
+            leaderTick();
+            await flushAsync();
+            appearance = "Light";
+
+            await vi.waitFor(() => expect(followerCtx.ui.theme.name).toBe("light"), { timeout: 2000 });
+            expect(leaderCtx.ui.theme.name).toBe("rose-pine");
+        });
+
+        it("replaces a lock left by a dead process and ignores its stale state", async () => {
+            await mkdir(path.dirname(getLockPath()), { recursive: true });
+            await writeFile(getLockPath(), JSON.stringify({ pid: 2147483646, token: "gone" }), "utf8");
+            await writeFile(getStatePath(), JSON.stringify({ appearance: "light", pid: 2147483646 }), "utf8");
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("dark");
+            expect(await readJson(getLockPath())).not.toMatchObject({ token: "gone" });
+        });
+
+        it("only replaces an unreadable lock once it has stayed unreadable for a while", async () => {
+            await mkdir(path.dirname(getLockPath()), { recursive: true });
+            await writeFile(getLockPath(), "", "utf8");
+
+            const first = await createExtensionRuntime();
+            await first.sessionStart({}, createContext({ themeName: "light" }).ctx);
+            expect(await readFile(getLockPath(), "utf8")).toBe("");
+
+            const past = new Date(Date.now() - 60_000);
+            await utimes(getLockPath(), past, past);
+
+            const second = await createExtensionRuntime();
+            await second.sessionStart({}, createContext({ themeName: "light" }).ctx);
+            expect(await readJson(getLockPath())).toMatchObject({ pid: process.pid });
+        });
+
+        it("does not take the lock when shareDetection is off", async () => {
+            await writeConfig({ shareDetection: false });
+
+            const { sessionStart } = await createExtensionRuntime();
+            await sessionStart({}, createContext({ themeName: "light" }).ctx);
+
+            expect(await configExists(getLockPath())).toBe(false);
+        });
+    });
+
+    describe("manual theme changes", () => {
+        // With the default mappings a custom theme is never synced, so map custom themes to see overrides.
+        const themes = { darkTheme: "rose-pine", lightTheme: "rose-pine-dawn" };
+        let appearance = "Dark";
+
+        beforeEach(() => {
+            setPlatform("darwin");
+            appearance = "Dark";
+            execFileAsyncMock.mockImplementation(async () => ({ stdout: `${appearance}\n` }));
+        });
+
+        it("keeps a hand-picked theme until the system appearance changes", async () => {
+            await writeConfig(themes);
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, notifyMock } = createContext({ themeName: "light" });
+            await sessionStart({}, ctx);
+            expect(ctx.ui.theme.name).toBe("rose-pine");
+
+            ctx.ui.theme = { name: "dark" };
+            await runPollTick();
+            await runPollTick();
+
+            expect(ctx.ui.theme.name).toBe("dark");
+            const notices = notifyMock.mock.calls.filter(([message]) => String(message).includes("picked by hand"));
+            expect(notices).toHaveLength(1);
+
+            appearance = "Light";
+            await runPollTick();
+            expect(ctx.ui.theme.name).toBe("rose-pine-dawn");
+        });
+
+        it("switches back right away with enforce", async () => {
+            await writeConfig({ ...themes, manualOverride: "enforce" });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, notifyMock } = createContext({ themeName: "light" });
+            await sessionStart({}, ctx);
+
+            ctx.ui.theme = { name: "dark" };
+            await runPollTick();
+
+            expect(ctx.ui.theme.name).toBe("rose-pine");
+            expect(notifyMock).not.toHaveBeenCalled();
+        });
+
+        it("asks whether to keep the theme with ask", async () => {
+            await writeConfig({ ...themes, manualOverride: "ask" });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, selectMock } = createContext({
+                themeName: "light",
+                selectAnswers: ["Switch back", "Keep"],
+            });
+            await sessionStart({}, ctx);
+
+            ctx.ui.theme = { name: "dark" };
+            await runPollTick();
+            expect(ctx.ui.theme.name).toBe("rose-pine");
+
+            ctx.ui.theme = { name: "light" };
+            await runPollTick();
+            await runPollTick();
+            expect(ctx.ui.theme.name).toBe("light");
+            expect(selectMock).toHaveBeenCalledTimes(2);
+        });
+        it.each(["respect", "ask"])("does not treat a menu preview as a hand-picked theme with %s", async (policy) => {
+            await writeConfig({ ...themes, manualOverride: policy });
+
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx, notifyMock, selectMock } = createContext({
+                themeName: "light",
+                selectAnswers: ["Dark theme:", "Cancel"],
+                customKeys: [[KEY_DOWN, runPollTick, KEY_ESCAPE]],
+            });
+            await sessionStart({}, ctx);
+            await runCommand("", ctx);
+
+            expect(selectMock).toHaveBeenCalledTimes(2);
+            expect(notifyMock.mock.calls.filter(([message]) => String(message).includes("picked by hand"))).toEqual([]);
+
+            appearance = "Light";
+            await runPollTick();
+            expect(ctx.ui.theme.name).toBe("rose-pine-dawn");
+        });
+    });
+
+    describe("pause", () => {
+        const getPausePath = () => path.join(testHome, ".pi", "agent", "system-theme.pause.json");
+        let appearance = "Dark";
+
+        beforeEach(() => {
+            setPlatform("darwin");
+            appearance = "Dark";
+            execFileAsyncMock.mockImplementation(async () => ({ stdout: `${appearance}\n` }));
+        });
+
+        it("skips syncing while paused and resumes with a notice once the pause runs out", async () => {
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx, notifyMock } = createContext({ themeName: "light" });
+            await sessionStart({}, ctx);
+            expect(ctx.ui.theme.name).toBe("dark");
+
+            await runCommand("pause 1h", ctx);
+            expect(String(notifyMock.mock.calls.at(-1)?.[0])).toContain("Paused auto-sync in all sessions until");
+            const { until } = (await readJson(getPausePath())) as { until: string };
+            expect(Date.parse(until) - Date.now()).toBeGreaterThan(3_500_000);
+
+            appearance = "Light";
+            execFileAsyncMock.mockClear();
+            await runPollTick();
+            expect(ctx.ui.theme.name).toBe("dark");
+            expect(execFileAsyncMock).not.toHaveBeenCalled();
+
+            await writeFile(
+                getPausePath(),
+                JSON.stringify({ until: new Date(Date.now() + 50).toISOString(), pid: process.pid, session: "x" }),
+                "utf8",
+            );
+            await runPollTick();
+            expect(ctx.ui.theme.name).toBe("dark");
+
+            await vi.waitFor(() => expect(ctx.ui.theme.name).toBe("light"));
+            expect(notifyMock).toHaveBeenCalledWith(
+                "The system-theme pause ended. Resumed syncing with the system appearance.",
+                "info",
+            );
+        });
+
+        it("holds other sessions until auto lifts it", async () => {
+            const first = await createExtensionRuntime();
+            const { ctx: firstCtx } = createContext({ themeName: "dark" });
+            await first.sessionStart({}, firstCtx);
+            await first.runCommand("pause", firstCtx);
+            expect(await readJson(getPausePath())).toMatchObject({ until: null, pid: process.pid });
+
+            const second = await createExtensionRuntime();
+            const { ctx: secondCtx, setThemeMock } = createContext({ themeName: "light" });
+            await second.sessionStart({}, secondCtx);
+            expect(setThemeMock).not.toHaveBeenCalled();
+
+            await first.runCommand("auto", firstCtx);
+            expect(await configExists(getPausePath())).toBe(false);
+
+            await runPollTick();
+            expect(secondCtx.ui.theme.name).toBe("dark");
+        });
+
+        it("ends a pause without a duration when its session shuts down", async () => {
+            const { sessionStart, sessionShutdown, runCommand } = await createExtensionRuntime();
+            const { ctx, notifyMock } = createContext({ themeName: "dark" });
+            await sessionStart({}, ctx);
+
+            await runCommand("pause soon", ctx);
+            expect(notifyMock.mock.calls.at(-1)?.[1]).toBe("warning");
+            expect(await configExists(getPausePath())).toBe(false);
+
+            await runCommand("pause", ctx);
+            expect(await configExists(getPausePath())).toBe(true);
+
+            await sessionShutdown();
+            expect(await configExists(getPausePath())).toBe(false);
+        });
+    });
+
+    describe("debug log", () => {
+        const getLogPath = () => path.join(testHome, ".pi", "agent", "system-theme.debug.jsonl");
+        const getRotatedLogPath = () => path.join(testHome, ".pi", "agent", "system-theme.debug.1.jsonl");
+
+        async function readLog(filePath = getLogPath()): Promise<Array<Record<string, unknown>>> {
+            const content = await readFile(filePath, "utf8");
+            return content
+                .split("\n")
+                .filter((line) => line.startsWith("{"))
+                .map((line) => JSON.parse(line) as Record<string, unknown>);
+        }
+
+        beforeEach(() => {
+            setPlatform("darwin");
+            execFileAsyncMock.mockResolvedValue({ stdout: "Dark\n" });
+        });
+
+        it("records detections and theme switches when debug is on", async () => {
+            await writeConfig({ debug: true });
+
+            const { sessionStart, sessionShutdown } = await createExtensionRuntime();
+            await sessionStart({}, createContext({ themeName: "light" }).ctx);
+            await runPollTick();
+            await runPollTick();
+            execFileAsyncMock.mockResolvedValue({ stdout: "Light\n" });
+            await runPollTick();
+            await sessionShutdown();
+
+            const entries = await readLog();
+            // Repeated outcomes are skipped: one entry for dark, one for the change to light.
+            expect(entries.filter((entry) => entry.event === "detection")).toHaveLength(2);
+            expect(entries).toContainEqual(
+                expect.objectContaining({ event: "detection", appearance: "dark", detectedBy: ["system"] }),
+            );
+            expect(entries.filter((entry) => entry.event === "switch")).toEqual([
+                expect.objectContaining({
+                    pid: process.pid,
+                    appearance: "dark",
+                    from: "light",
+                    to: "dark",
+                    detectedBy: ["system"],
+                    forced: false,
+                }),
+                expect.objectContaining({ appearance: "light", from: "dark", to: "light" }),
+            ]);
+        });
+
+        it("is enabled by PI_SYSTEM_THEME_DEBUG and feeds /system-theme history", async () => {
+            process.env.PI_SYSTEM_THEME_DEBUG = "1";
+
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx, notifyMock } = createContext({ themeName: "light" });
+            await sessionStart({}, ctx);
+            await runCommand("light", ctx);
+
+            await runCommand("history", ctx);
+            const history = String(notifyMock.mock.calls.at(-1)?.[0]);
+            expect(history).toContain("light -> dark (dark, from system)");
+            expect(history).toContain("dark -> light (light, forced)");
+
+            await runCommand("history 1", ctx);
+            expect(String(notifyMock.mock.calls.at(-1)?.[0])).not.toContain("light -> dark");
+        });
+
+        it("logs setTheme and onSwitch hook failures", async () => {
+            await writeConfig({ debug: true, onSwitch: ["tmux source-file ~/.tmux.conf"] });
+            execFileAsyncMock.mockImplementation(async (file) => {
+                if (file === "tmux") {
+                    throw Object.assign(new Error("Command failed"), { code: 1, stderr: "no server running\n" });
+                }
+
+                return { stdout: "Dark\n" };
+            });
+
+            const { sessionStart, sessionShutdown, runCommand } = await createExtensionRuntime();
+            const { ctx, notifyMock, setThemeMock } = createContext({ themeName: "light" });
+            await sessionStart({}, ctx);
+            await vi.waitFor(() => expect(notifyMock).toHaveBeenCalledWith(expect.any(String), "warning"));
+
+            setThemeMock.mockReturnValueOnce({ success: false, error: "theme not found" });
+            await runCommand("light", ctx);
+            await sessionShutdown();
+
+            const failures = (await readLog()).filter((entry) => entry.event === "failure");
+            expect(failures).toEqual([
+                expect.objectContaining({
+                    kind: "hook",
+                    message: "tmux source-file ~/.tmux.conf (exit 1): no server running",
+                }),
+                expect.objectContaining({ kind: "setTheme", message: 'Failed to set theme "light": theme not found' }),
+            ]);
+        });
+
+        it("moves a full log aside before appending", async () => {
+            await writeConfig({ debug: true });
+            await writeFile(getLogPath(), `${"x".repeat(1_048_575)}\n`, "utf8");
+
+            const { sessionStart, sessionShutdown } = await createExtensionRuntime();
+            await sessionStart({}, createContext({ themeName: "light" }).ctx);
+            await sessionShutdown();
+
+            expect((await stat(getRotatedLogPath())).size).toBe(1_048_576);
+            expect(await readLog()).toContainEqual(expect.objectContaining({ event: "switch", to: "dark" }));
+        });
+
+        it("writes nothing while debug is off and explains how to enable it", async () => {
+            const { sessionStart, runCommand } = await createExtensionRuntime();
+            const { ctx, notifyMock } = createContext({ themeName: "light" });
+            await sessionStart({}, ctx);
+
+            await runCommand("history", ctx);
+
+            expect(await configExists(getLogPath())).toBe(false);
+            expect(String(notifyMock.mock.calls.at(-1)?.[0])).toContain("PI_SYSTEM_THEME_DEBUG=1");
+
+            await runCommand("history 0", ctx);
+            expect(notifyMock.mock.calls.at(-1)?.[1]).toBe("warning");
+        });
+    });
+
+    describe("high contrast", () => {
+        it("prefers the high-contrast mapping when macOS increaseContrast is on", async () => {
+            setPlatform("darwin");
+            await writeConfig({ highContrastDarkTheme: "rose-pine" });
+
+            execFileAsyncMock.mockImplementation(async (_file, args) => {
+                return { stdout: args.includes("increaseContrast") ? "1\n" : "Dark\n" };
+            });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("rose-pine");
+            expect(setThemeMock).not.toHaveBeenCalledWith("dark");
+        });
+
+        it("keeps the normal mapping when there is no high-contrast theme for the appearance", async () => {
+            setPlatform("win32");
+            await writeConfig({ highContrastDarkTheme: "rose-pine" });
+
+            execFileAsyncMock.mockImplementation(async (_file, args) => {
+                if (args.includes("Flags")) {
+                    return {
+                        stdout: "HKEY_CURRENT_USER\\Control Panel\\Accessibility\\HighContrast\n    Flags    REG_SZ    127\n",
+                    };
+                }
+
+                return {
+                    stdout: "HKEY_CURRENT_USER\\Software\\Microsoft\\Windows\\CurrentVersion\\Themes\\Personalize\n    AppsUseLightTheme    REG_DWORD    0x1\n",
+                };
+            });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "dark" });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("light");
+            expect(getCommandCalls("reg").map(([, args]) => getRegistryValueName(args))).toEqual([
+                "AppsUseLightTheme",
+                "Flags",
+            ]);
+        });
+
+        it("reads the GNOME a11y high-contrast key and polls instead of monitoring", async () => {
+            setPlatform("linux");
+            await writeConfig({ highContrastLightTheme: "rose-pine-dawn" });
+
+            execFileAsyncMock.mockImplementation(async (file, args) => {
+                if (file === "gsettings" && args.includes("high-contrast")) {
+                    return { stdout: "true\n" };
+                }
+
+                if (file === "gsettings" && getGSettingsKey(args) === "color-scheme") {
+                    return { stdout: "'prefer-light'\n" };
+                }
+
+                throw new Error(`Unexpected command: ${file}`);
+            });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx, setThemeMock } = createContext({ themeName: "dark" });
+
+            await sessionStart({}, ctx);
+
+            expect(setThemeMock).toHaveBeenCalledWith("rose-pine-dawn");
+            expect(spawnMock).not.toHaveBeenCalled();
+            expect(setIntervalSpy).toHaveBeenCalledTimes(1);
+        });
+
+        it("does not query the contrast setting without high-contrast mappings", async () => {
+            setPlatform("darwin");
+            execFileAsyncMock.mockResolvedValue({ stdout: "Dark\n" });
+
+            const { sessionStart } = await createExtensionRuntime();
+            const { ctx } = createContext({ themeName: "light" });
+
+            await sessionStart({}, ctx);
+
+            expect(execFileAsyncMock).toHaveBeenCalledTimes(1);
+        });
+    });
+
     it("detects Windows dark appearance from AppsUseLightTheme=0x0", async () => {
         setPlatform("win32");
 
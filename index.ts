@@ -1,118 +1,828 @@
-import { execFile } from "node:child_process";
-import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { type ChildProcess, execFile, spawn } from "node:child_process";
+import { existsSync, type FSWatcher, mkdirSync, readFileSync, rmSync, statSync, watch, writeFileSync } from "node:fs";
+import { appendFile, mkdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { createInterface } from "node:readline";
 import { promisify } from "node:util";
 import type { ExtensionAPI, ExtensionCommandContext, ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { Container, type SelectItem, SelectList, Text } from "@mariozechner/pi-tui";
 
 const execFileAsync = promisify(execFile);
 
+type AppearanceSource = "system" | "terminal" | "schedule";
+
+type ScheduleConfig = {
+    /** Local wall-clock time (`HH:MM`) when light mode starts. */
+    lightAt?: string;
+    /** Local wall-clock time (`HH:MM`) when dark mode starts. */
+    darkAt?: string;
+    latitude?: number;
+    longitude?: number;
+};
+
 type Config = {
     darkTheme: string;
     lightTheme: string;
     pollMs: number;
+    source: AppearanceSource;
+    /** Time-of-day fallback (or primary source when `source` is `schedule`). */
+    schedule: ScheduleConfig | null;
+    /** Consecutive identical detections required before switching. */
+    stablePolls: number;
+    /** Upper bound for the poll interval while detection keeps failing. */
+    maxBackoffMs: number;
+    /** Use the built-in `dark`/`light` themes when a configured theme is not installed. */
+    fallbackToBuiltinThemes: boolean;
+    /** Preferred over `darkTheme` while the OS high-contrast setting is on; `null` disables it. */
+    highContrastDarkTheme: string | null;
+    /** Preferred over `lightTheme` while the OS high-contrast setting is on; `null` disables it. */
+    highContrastLightTheme: string | null;
+    /** Program and arguments whose stdout reports the appearance; tried before the `source` backends. */
+    detectCommand: string[] | null;
+    /** File containing `dark`/`light` (or JSON), written by another machine; tried before `detectCommand`. */
+    appearanceFile: string | null;
+    /** Ignore `appearanceFile` once it has not been modified for this long; `0` never treats it as stale. */
+    appearanceFileMaxAgeMs: number;
+    /** Commands run after each theme switch, with `PI_APPEARANCE` and `PI_THEME` set. */
+    onSwitch: SwitchHook[];
+    /** Let concurrent Pi sessions elect one session to run the OS detection for all of them. */
+    shareDetection: boolean;
+    /** Detectors in priority order; `null` derives the order from `source`. */
+    detectors: DetectorSpec[] | null;
+    /** How the detectors' answers combine into one appearance. */
+    detectorPolicy: DetectorPolicy;
+    /** Applied when every detector comes back empty; `null` keeps the current theme. */
+    fallbackAppearance: Appearance | null;
+    /** Append detections, theme switches and failures to a JSONL log under `~/.pi/agent/`. */
+    debug: boolean;
+    manualOverride: ManualOverridePolicy;
+};
+
+type DetectorName =
+    | "env"
+    | "file"
+    | "command"
+    | "system"
+    | "terminal"
+    | "schedule"
+    | "plist"
+    | "defaults"
+    | "registry"
+    | "kde"
+    | "dconf"
+    | "portal"
+    | "gsettings"
+    | "xfconf"
+    | "gtk-settings";
+
+type DetectorSpec = {
+    name: DetectorName;
+    /** Caps the whole detector and each command it runs; unset keeps the per-command default. */
+    timeoutMs?: number;
+};
+
+/** `first`: the highest-priority answer wins. `majority`: every detector runs and the most common answer wins. */
+type DetectorPolicy = "first" | "majority";
+
+/**
+ * What to do when the theme no longer matches the one this extension applied, i.e. the user picked one.
+ * `respect` keeps it until the system appearance changes, `enforce` switches back, `ask` prompts.
+ */
+type ManualOverridePolicy = "respect" | "enforce" | "ask";
+
+type SwitchHook = {
+    command: string[];
+    timeoutMs: number;
 };
 
+type ThemeKey = "darkTheme" | "lightTheme" | "highContrastDarkTheme" | "highContrastLightTheme";
+
 type Appearance = "dark" | "light";
 
+/** Emitted on `pi.events` whenever the applied appearance or theme changes. */
+export const APPEARANCE_EVENT = "system-theme:appearance";
+/** Emit with an `AppearanceQuery` to receive the current `AppearanceState` synchronously. */
+export const APPEARANCE_QUERY_EVENT = "system-theme:query";
+
+export type AppearanceChangeEvent = {
+    /** `null` for the first appearance applied in a session. */
+    previousAppearance: Appearance | null;
+    appearance: Appearance;
+    previousTheme: string | undefined;
+    theme: string | undefined;
+    highContrast: boolean;
+    /** Detectors that reported `appearance`, or `["fallback"]`; empty for a forced appearance. */
+    detectedBy: string[];
+};
+
+export type AppearanceState = {
+    /** The last detected (or forced) appearance; `null` before the first sync. */
+    appearance: Appearance | null;
+    highContrast: boolean;
+    /** Set while `/system-theme dark|light|toggle` overrides detection. */
+    forced: boolean;
+    /** Detectors behind `appearance`, as in `AppearanceChangeEvent`. */
+    detectedBy: string[];
+};
+
+export type AppearanceQuery = {
+    reply: (state: AppearanceState) => void;
+};
+
+/** One backend attempt recorded during detection, for `/system-theme status`. */
+type DetectionStep = {
+    backend: string;
+    /** The command line that ran, or the file that was read. */
+    command?: string;
+    /** `0`, the exit code, a signal name, or an error code such as `ENOENT`. */
+    exitStatus?: string;
+    output?: string;
+    appearance: Appearance | null;
+    /** Set by contrast backends instead of `appearance`. */
+    highContrast?: boolean;
+};
+
+type DetectionTrace = DetectionStep[];
+
 const DEFAULT_CONFIG: Config = {
     darkTheme: "dark",
     lightTheme: "light",
     pollMs: 2000,
+    source: "system",
+    schedule: null,
+    stablePolls: 1,
+    maxBackoffMs: 30000,
+    fallbackToBuiltinThemes: false,
+    highContrastDarkTheme: null,
+    highContrastLightTheme: null,
+    detectCommand: null,
+    appearanceFile: null,
+    appearanceFileMaxAgeMs: 0,
+    onSwitch: [],
+    shareDetection: true,
+    detectors: null,
+    detectorPolicy: "first",
+    fallbackAppearance: null,
+    debug: false,
+    manualOverride: "respect",
+};
+
+const APPEARANCE_SOURCES: readonly AppearanceSource[] = ["system", "terminal", "schedule"];
+const DETECTOR_NAMES: readonly DetectorName[] = [
+    "env",
+    "file",
+    "command",
+    "system",
+    "terminal",
+    "schedule",
+    "plist",
+    "defaults",
+    "registry",
+    "kde",
+    "dconf",
+    "portal",
+    "gsettings",
+    "xfconf",
+    "gtk-settings",
+];
+const DETECTOR_POLICIES: readonly DetectorPolicy[] = ["first", "majority"];
+const MANUAL_OVERRIDE_POLICIES: readonly ManualOverridePolicy[] = ["respect", "enforce", "ask"];
+
+/** Config layers from lowest to highest precedence. */
+type ConfigLayer = "default" | "global" | "project" | "env";
+type WritableConfigLayer = "global" | "project";
+type ConfigLayerValues = Partial<Config>;
+type ConfigLayers = Record<Exclude<ConfigLayer, "default">, ConfigLayerValues>;
+type ConfigSources = Record<keyof Config, ConfigLayer>;
+
+type LoadedConfig = {
+    config: Config;
+    /** The layer that supplied each effective value. */
+    sources: ConfigSources;
+    layers: ConfigLayers;
 };
 
+const CONFIG_LAYERS: readonly ConfigLayer[] = ["default", "global", "project", "env"];
+const CONFIG_KEYS = Object.keys(DEFAULT_CONFIG) as Array<keyof Config>;
+/** The theme mappings `/system-theme reset` removes; the rest of the global file stays. */
+const THEME_CONFIG_KEYS = ["darkTheme", "lightTheme", "highContrastDarkTheme", "highContrastLightTheme"] as const;
+
 const GLOBAL_CONFIG_PATH = path.join(os.homedir(), ".pi", "agent", "system-theme.json");
+const SHARED_LOCK_PATH = path.join(path.dirname(GLOBAL_CONFIG_PATH), "system-theme.lock");
+const SHARED_STATE_PATH = path.join(path.dirname(GLOBAL_CONFIG_PATH), "system-theme.state.json");
+const UNREADABLE_LOCK_GRACE_MS = 5000;
+const PAUSE_PATH = path.join(path.dirname(GLOBAL_CONFIG_PATH), "system-theme.pause.json");
+/** setTimeout fires at once for longer delays; longer pauses re-arm the timer when it fires. */
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+const DURATION_UNIT_MS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+const DEBUG_LOG_PATH = path.join(path.dirname(GLOBAL_CONFIG_PATH), "system-theme.debug.jsonl");
+/** The previous log, replaced on each rotation, so at most two files exist. */
+const ROTATED_DEBUG_LOG_PATH = path.join(path.dirname(GLOBAL_CONFIG_PATH), "system-theme.debug.1.jsonl");
+const DEBUG_LOG_MAX_BYTES = 1_048_576;
+const DEFAULT_HISTORY_COUNT = 10;
 const DETECTION_TIMEOUT_MS = 1200;
+const DEFAULT_HOOK_TIMEOUT_MS = 5000;
+// Editors and dotfile managers often write via temp file + rename, which fires several events.
+const CONFIG_RELOAD_DEBOUNCE_MS = 200;
+const PORTAL_DESTINATION = "org.freedesktop.portal.Desktop";
+const PORTAL_OBJECT_PATH = "/org/freedesktop/portal/desktop";
+const PORTAL_SETTINGS_INTERFACE = "org.freedesktop.portal.Settings";
+const PORTAL_APPEARANCE_NAMESPACE = "org.freedesktop.appearance";
+const APPEARANCE_OVERRIDE_ENV = "PI_SYSTEM_APPEARANCE";
+const GVDB_SIGNATURE = "GVariant";
+const GVDB_HASH_ITEM_SIZE = 24;
+const GVDB_NO_PARENT = 0xffffffff;
+const DCONF_COLOR_SCHEME_KEY = "/org/gnome/desktop/interface/color-scheme";
+const BPLIST_SIGNATURE = "bplist00";
+const BPLIST_TRAILER_SIZE = 32;
 const MIN_POLL_MS = 500;
+const MAX_STABLE_POLLS = 10;
+const MAX_PICKER_ROWS = 12;
+const CUSTOM_THEME_ITEM = "\u0000custom";
+const NO_THEME_ITEM = "\u0000none";
+const MAX_THEME_SUGGESTIONS = 3;
+const TERMINAL_QUERY_TIMEOUT_MS = 300;
+const TERMINAL_REPLY_GRACE_MS = 5000;
+const OSC_11_QUERY = "\u001b]11;?\u0007";
+const OSC_11_REPLY_PREFIX = "\u001b]11;";
+const OSC_11_RESPONSE_PATTERN = /\u001b\]11;(rgba?:[0-9a-f/]+)(?:\u0007|\u001b\\)/i;
+// Relative luminance where black and white text have equal contrast; brighter backgrounds read as light.
+const LIGHT_LUMINANCE_THRESHOLD = 0.179;
+const CLOCK_TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+const MS_PER_DAY = 86_400_000;
+const JULIAN_UNIX_EPOCH = 2440587.5;
+const JULIAN_J2000 = 2451545;
 
 function isObject(value: unknown): value is Record<string, unknown> {
     return typeof value === "object" && value !== null && !Array.isArray(value);
 }
 
-function toThemeName(value: unknown, fallback: string): string {
+function toThemeName(value: unknown): string | undefined {
     if (typeof value !== "string") {
-        return fallback;
+        return undefined;
     }
 
     const trimmed = value.trim();
-    return trimmed.length > 0 ? trimmed : fallback;
+    return trimmed.length > 0 ? trimmed : undefined;
+}
+
+/** Like `toThemeName`, but `null` explicitly clears an optional mapping. */
+function toOptionalThemeName(value: unknown): string | null | undefined {
+    return value === null ? null : toThemeName(value);
+}
+
+/**
+ * Accepts an argv array or a whitespace-separated string (no shell quoting; use the array form for
+ * arguments containing spaces). `null` explicitly turns the command off.
+ */
+function toDetectCommand(value: unknown): string[] | null | undefined {
+    if (value === null) {
+        return null;
+    }
+
+    const parts =
+        typeof value === "string"
+            ? value.trim().split(/\s+/)
+            : Array.isArray(value) && value.every((part) => typeof part === "string")
+              ? value
+              : [];
+
+    return parts.length > 0 && parts.every((part) => part.length > 0) ? parts : undefined;
+}
+
+function formatDetectCommand(command: string[] | null): string {
+    return command ? command.join(" ") : "off";
+}
+
+/** A non-empty path; `null` explicitly turns the file off. */
+function toFilePath(value: unknown): string | null | undefined {
+    return value === null ? null : toThemeName(value);
+}
+
+function toMaxAgeMs(value: unknown): number | undefined {
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+        return undefined;
+    }
+
+    return Math.round(value);
+}
+
+/**
+ * Each hook is a command (string or argv array, as for `detectCommand`) or `{ command, timeoutMs }`.
+ * One invalid entry rejects the whole list, so a typo never silently drops a hook.
+ */
+function toSwitchHooks(value: unknown): SwitchHook[] | undefined {
+    if (!Array.isArray(value)) {
+        return undefined;
+    }
+
+    const hooks: SwitchHook[] = [];
+    for (const entry of value) {
+        const command = toDetectCommand(isObject(entry) ? entry.command : entry);
+        const rawTimeout = isObject(entry) ? entry.timeoutMs : undefined;
+        const timeoutMs = rawTimeout === undefined ? DEFAULT_HOOK_TIMEOUT_MS : toPollMs(rawTimeout);
+        if (!command || timeoutMs === undefined) {
+            return undefined;
+        }
+
+        hooks.push({ command, timeoutMs });
+    }
+
+    return hooks;
 }
 
-function toPollMs(value: unknown, fallback: number): number {
+function toPollMs(value: unknown): number | undefined {
     if (typeof value !== "number" || !Number.isFinite(value)) {
-        return fallback;
+        return undefined;
     }
 
     return Math.max(MIN_POLL_MS, Math.round(value));
 }
 
-function getOverrides(config: Config): Partial<Config> {
-    const overrides: Partial<Config> = {};
+function toStablePolls(value: unknown): number | undefined {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+        return undefined;
+    }
+
+    return Math.min(MAX_STABLE_POLLS, Math.max(1, Math.round(value)));
+}
+
+function toBoolean(value: unknown): boolean | undefined {
+    return typeof value === "boolean" ? value : undefined;
+}
+
+function toAppearanceSource(value: unknown): AppearanceSource | undefined {
+    return APPEARANCE_SOURCES.find((source) => source === value);
+}
+
+/** Accepts detector names or `{ "name", "timeoutMs" }` objects; one unknown name rejects the list. */
+function toDetectors(value: unknown): DetectorSpec[] | null | undefined {
+    if (value === null) {
+        return null;
+    }
+
+    if (!Array.isArray(value) || value.length === 0) {
+        return undefined;
+    }
+
+    const detectors: DetectorSpec[] = [];
+    for (const entry of value) {
+        const rawName = isObject(entry) ? entry.name : entry;
+        const name = DETECTOR_NAMES.find((candidate) => candidate === rawName);
+        const rawTimeout = isObject(entry) ? entry.timeoutMs : undefined;
+        const timeoutMs = rawTimeout === undefined ? undefined : toPollMs(rawTimeout);
+        if (!name || (rawTimeout !== undefined && timeoutMs === undefined)) {
+            return undefined;
+        }
+
+        detectors.push(timeoutMs === undefined ? { name } : { name, timeoutMs });
+    }
+
+    return detectors;
+}
+
+function formatDetectors(detectors: DetectorSpec[]): string {
+    return detectors
+        .map((detector) =>
+            detector.timeoutMs === undefined ? detector.name : `${detector.name} (${detector.timeoutMs} ms)`,
+        )
+        .join(", ");
+}
+
+function toDetectorPolicy(value: unknown): DetectorPolicy | undefined {
+    return DETECTOR_POLICIES.find((policy) => policy === value);
+}
+
+function toManualOverridePolicy(value: unknown): ManualOverridePolicy | undefined {
+    return MANUAL_OVERRIDE_POLICIES.find((policy) => policy === value);
+}
+
+function toOptionalAppearance(value: unknown): Appearance | null | undefined {
+    if (value === null) {
+        return null;
+    }
+
+    return value === "dark" || value === "light" ? value : undefined;
+}
+
+function toClockTime(value: unknown): string | undefined {
+    if (typeof value !== "string") {
+        return undefined;
+    }
+
+    const match = value.trim().match(CLOCK_TIME_PATTERN);
+    return match ? `${(match[1] ?? "").padStart(2, "0")}:${match[2]}` : undefined;
+}
+
+function toCoordinate(value: unknown, limit: number): number | undefined {
+    if (typeof value !== "number" || !Number.isFinite(value) || Math.abs(value) > limit) {
+        return undefined;
+    }
+
+    return value;
+}
+
+/**
+ * Returns a schedule only when it has a complete `lightAt`/`darkAt` pair or `latitude`/`longitude` pair.
+ * `null` explicitly turns the schedule off.
+ */
+function toSchedule(value: unknown): ScheduleConfig | null | undefined {
+    if (value === null) {
+        return null;
+    }
+
+    if (!isObject(value)) {
+        return undefined;
+    }
+
+    const schedule: ScheduleConfig = {};
+
+    const lightAt = toClockTime(value.lightAt);
+    const darkAt = toClockTime(value.darkAt);
+    if (lightAt && darkAt) {
+        schedule.lightAt = lightAt;
+        schedule.darkAt = darkAt;
+    }
+
+    const latitude = toCoordinate(value.latitude, 90);
+    const longitude = toCoordinate(value.longitude, 180);
+    if (latitude !== undefined && longitude !== undefined) {
+        schedule.latitude = latitude;
+        schedule.longitude = longitude;
+    }
+
+    return Object.keys(schedule).length > 0 ? schedule : undefined;
+}
+
+function formatSchedule(schedule: ScheduleConfig | null): string {
+    if (!schedule) {
+        return "off";
+    }
+
+    if (schedule.latitude !== undefined && schedule.longitude !== undefined) {
+        return `sunrise/sunset at ${schedule.latitude}, ${schedule.longitude}`;
+    }
+
+    return `light ${schedule.lightAt} / dark ${schedule.darkAt}`;
+}
+
+function getProjectConfigPath(cwd: string): string {
+    return path.join(cwd, ".pi", "system-theme.json");
+}
+
+function getConfigLayerPath(layer: WritableConfigLayer, cwd: string): string {
+    return layer === "project" ? getProjectConfigPath(cwd) : GLOBAL_CONFIG_PATH;
+}
+
+function isSameConfigValue(left: unknown, right: unknown): boolean {
+    return JSON.stringify(left) === JSON.stringify(right);
+}
+
+type ConfigField<T> = {
+    parse: (value: unknown) => T | undefined;
+    /** Shown in validation warnings and mirrored by `system-theme.schema.json`. */
+    expected: string;
+};
+
+const CONFIG_SCHEMA: { [K in keyof Config]: ConfigField<Config[K]> } = {
+    darkTheme: { parse: toThemeName, expected: "a theme name" },
+    lightTheme: { parse: toThemeName, expected: "a theme name" },
+    pollMs: { parse: toPollMs, expected: "a number of milliseconds" },
+    source: { parse: toAppearanceSource, expected: APPEARANCE_SOURCES.map((source) => `"${source}"`).join(" | ") },
+    schedule: {
+        parse: toSchedule,
+        expected: '{ "lightAt": "HH:MM", "darkAt": "HH:MM" }, { "latitude", "longitude" } or null',
+    },
+    stablePolls: { parse: toStablePolls, expected: `a number from 1 to ${MAX_STABLE_POLLS}` },
+    maxBackoffMs: { parse: toPollMs, expected: "a number of milliseconds" },
+    fallbackToBuiltinThemes: { parse: toBoolean, expected: "true or false" },
+    highContrastDarkTheme: { parse: toOptionalThemeName, expected: "a theme name or null" },
+    highContrastLightTheme: { parse: toOptionalThemeName, expected: "a theme name or null" },
+    detectCommand: { parse: toDetectCommand, expected: "a command string, an array of arguments, or null" },
+    appearanceFile: { parse: toFilePath, expected: "a file path or null" },
+    appearanceFileMaxAgeMs: { parse: toMaxAgeMs, expected: "a number of milliseconds (0 = no limit)" },
+    onSwitch: {
+        parse: toSwitchHooks,
+        expected: 'a list of commands or { "command", "timeoutMs" } objects',
+    },
+    shareDetection: { parse: toBoolean, expected: "true or false" },
+    detectors: {
+        parse: toDetectors,
+        expected: `null or a non-empty list of ${DETECTOR_NAMES.map((name) => `"${name}"`).join(" | ")} or { "name", "timeoutMs" } objects`,
+    },
+    detectorPolicy: {
+        parse: toDetectorPolicy,
+        expected: DETECTOR_POLICIES.map((policy) => `"${policy}"`).join(" | "),
+    },
+    fallbackAppearance: { parse: toOptionalAppearance, expected: '"dark", "light" or null' },
+    debug: { parse: toBoolean, expected: "true or false" },
+    manualOverride: {
+        parse: toManualOverridePolicy,
+        expected: MANUAL_OVERRIDE_POLICIES.map((policy) => `"${policy}"`).join(" | "),
+    },
+};
+
+/** Keys a config file may carry besides the config values themselves. */
+const CONFIG_META_KEYS = ["version", "$schema"];
+
+/** Upgrades a config file one step at a time: entry N turns a version N file into version N + 1. */
+const CONFIG_MIGRATIONS: ReadonlyArray<(raw: Record<string, unknown>) => Record<string, unknown>> = [
+    // 0 -> 1: files written before the `version` field existed already have the version 1 shape.
+    (raw) => raw,
+];
+const CONFIG_VERSION = CONFIG_MIGRATIONS.length;
+
+/** Problems found while loading config; `errors` mean a whole file could not be used. */
+type ConfigDiagnostics = {
+    errors: string[];
+    warnings: string[];
+};
+
+/** Keeps only the valid, known keys of a raw config object. */
+function parseConfigLayer(raw: Record<string, unknown>, warnings: string[] = []): ConfigLayerValues {
+    const values: ConfigLayerValues = {};
+
+    for (const key of CONFIG_KEYS) {
+        if (raw[key] === undefined) {
+            continue;
+        }
+
+        const field: ConfigField<unknown> = CONFIG_SCHEMA[key];
+        const value = field.parse(raw[key]);
+        if (value === undefined) {
+            warnings.push(`${key}: expected ${field.expected}, got ${JSON.stringify(raw[key])}.`);
+            continue;
+        }
+
+        Object.assign(values, { [key]: value });
+    }
+
+    return values;
+}
+
+function findUnknownConfigKeys(raw: Record<string, unknown>): string[] {
+    const known: string[] = [...CONFIG_KEYS, ...CONFIG_META_KEYS];
+
+    return Object.keys(raw)
+        .filter((key) => !known.includes(key))
+        .map((key) => {
+            const suggestion = CONFIG_KEYS.find(
+                (candidate) => getEditDistance(candidate.toLowerCase(), key.toLowerCase()) <= 2,
+            );
+            return suggestion ? `Unknown key "${key}" (did you mean "${suggestion}"?).` : `Unknown key "${key}".`;
+        });
+}
+
+/** Brings a config file up to `CONFIG_VERSION`. Files from a newer release are read as-is, with a warning. */
+function migrateConfigFile(raw: Record<string, unknown>, warnings: string[]): Record<string, unknown> {
+    const { version: rawVersion, ...rest } = raw;
+    let version = 0;
 
-    if (config.darkTheme !== DEFAULT_CONFIG.darkTheme) {
-        overrides.darkTheme = config.darkTheme;
+    if (typeof rawVersion === "number" && Number.isInteger(rawVersion) && rawVersion >= 0) {
+        version = rawVersion;
+    } else if (rawVersion !== undefined) {
+        warnings.push(`version: expected a whole number, got ${JSON.stringify(rawVersion)}.`);
     }
 
-    if (config.lightTheme !== DEFAULT_CONFIG.lightTheme) {
-        overrides.lightTheme = config.lightTheme;
+    if (version > CONFIG_VERSION) {
+        warnings.push(`Written for config version ${version}; this release understands up to ${CONFIG_VERSION}.`);
+        return rest;
     }
 
-    if (config.pollMs !== DEFAULT_CONFIG.pollMs) {
-        overrides.pollMs = config.pollMs;
+    let migrated = rest;
+    for (const migrate of CONFIG_MIGRATIONS.slice(version)) {
+        migrated = migrate(migrated);
     }
 
-    return overrides;
+    return migrated;
+}
+
+function readEnvConfigLayer(env: NodeJS.ProcessEnv = process.env, warnings: string[] = []): ConfigLayerValues {
+    const pollMs = env.PI_SYSTEM_THEME_POLL_MS?.trim();
+    const debug = env.PI_SYSTEM_THEME_DEBUG?.trim().toLowerCase();
+    const fieldWarnings: string[] = [];
+
+    const values = parseConfigLayer(
+        {
+            darkTheme: env.PI_SYSTEM_THEME_DARK,
+            lightTheme: env.PI_SYSTEM_THEME_LIGHT,
+            pollMs: pollMs ? Number(pollMs) : undefined,
+            debug:
+                debug === "1" || debug === "true"
+                    ? true
+                    : debug === "0" || debug === "false"
+                      ? false
+                      : debug || undefined,
+        },
+        fieldWarnings,
+    );
+
+    warnings.push(...fieldWarnings.map((warning) => `environment: ${warning}`));
+    return values;
 }
 
-async function loadConfig(): Promise<Config> {
-    const config = { ...DEFAULT_CONFIG };
+/**
+ * Missing files are an empty layer. Unreadable or malformed files are recorded in `diagnostics.errors`;
+ * invalid values, unknown keys and version problems in `diagnostics.warnings`.
+ */
+async function readConfigLayer(
+    filePath: string,
+    diagnostics: ConfigDiagnostics = { errors: [], warnings: [] },
+): Promise<ConfigLayerValues> {
+    const errors = diagnostics.errors;
 
     try {
-        const rawContent = await readFile(GLOBAL_CONFIG_PATH, "utf8");
+        const rawContent = await readFile(filePath, "utf8");
         const parsed = JSON.parse(rawContent) as unknown;
 
         if (!isObject(parsed)) {
-            console.warn(`[pi-system-theme] Ignoring ${GLOBAL_CONFIG_PATH}: expected JSON object.`);
-            return config;
+            errors.push(`Ignoring ${filePath}: expected JSON object.`);
+            return {};
         }
 
-        config.darkTheme = toThemeName(parsed.darkTheme, config.darkTheme);
-        config.lightTheme = toThemeName(parsed.lightTheme, config.lightTheme);
-        config.pollMs = toPollMs(parsed.pollMs, config.pollMs);
+        const warnings: string[] = [];
+        const migrated = migrateConfigFile(parsed, warnings);
+        warnings.push(...findUnknownConfigKeys(migrated));
+        const values = parseConfigLayer(migrated, warnings);
 
-        return config;
+        diagnostics.warnings.push(...warnings.map((warning) => `${filePath}: ${warning}`));
+        return values;
     } catch (error) {
         if ((error as { code?: string })?.code === "ENOENT") {
-            return config;
+            return {};
+        }
+
+        errors.push(`Failed to read ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+        return {};
+    }
+}
+
+function mergeConfigLayers(layers: ConfigLayers, upTo: ConfigLayer = "env"): LoadedConfig {
+    const config: Config = { ...DEFAULT_CONFIG };
+    const sources = Object.fromEntries(CONFIG_KEYS.map((key) => [key, "default"])) as ConfigSources;
+
+    for (const layer of CONFIG_LAYERS.slice(1, CONFIG_LAYERS.indexOf(upTo) + 1)) {
+        const values = layers[layer as Exclude<ConfigLayer, "default">];
+
+        for (const key of CONFIG_KEYS) {
+            if (values[key] !== undefined) {
+                Object.assign(config, { [key]: values[key] });
+                sources[key] = layer;
+            }
+        }
+    }
+
+    return { config, sources, layers };
+}
+
+/** Merges defaults, `~/.pi/agent/system-theme.json`, `<cwd>/.pi/system-theme.json`, then `PI_SYSTEM_THEME_*`. */
+async function loadConfig(
+    cwd: string,
+    diagnostics: ConfigDiagnostics = { errors: [], warnings: [] },
+): Promise<LoadedConfig> {
+    const layers: ConfigLayers = {
+        global: await readConfigLayer(GLOBAL_CONFIG_PATH, diagnostics),
+        project: await readConfigLayer(getProjectConfigPath(cwd), diagnostics),
+        env: readEnvConfigLayer(process.env, diagnostics.warnings),
+    };
+
+    return mergeConfigLayers(layers);
+}
+
+/**
+ * The `$schema` and `version` of an existing config file: saving keeps the former so editor autocomplete
+ * keeps working, and checks the latter so a file from a newer release is not rewritten in an older format.
+ */
+async function readConfigFileHeader(filePath: string): Promise<{ schema?: string; version?: number }> {
+    try {
+        const parsed = JSON.parse(await readFile(filePath, "utf8")) as unknown;
+        if (!isObject(parsed)) {
+            return {};
         }
 
-        const message = error instanceof Error ? error.message : String(error);
-        console.warn(`[pi-system-theme] Failed to read ${GLOBAL_CONFIG_PATH}: ${message}`);
-        return config;
+        return {
+            schema: typeof parsed.$schema === "string" ? parsed.$schema : undefined,
+            version: typeof parsed.version === "number" ? parsed.version : undefined,
+        };
+    } catch {
+        return {};
     }
 }
 
-async function saveConfig(config: Config): Promise<{ wroteFile: boolean; overrideCount: number }> {
-    const overrides = getOverrides(config);
+/**
+ * Writes the user's edits to `layer`. Starts from the values already stored in that file and applies only
+ * the keys where `config` differs from the effective config, so values from other layers are never copied
+ * in and stored values an environment variable currently hides are kept. Keys equal to the layers below
+ * are dropped.
+ */
+async function saveConfig(
+    config: Config,
+    layer: WritableConfigLayer,
+    cwd: string,
+    loaded: LoadedConfig,
+): Promise<{ wroteFile: boolean; overrideCount: number; filePath: string }> {
+    const filePath = getConfigLayerPath(layer, cwd);
+    const { schema, version } = await readConfigFileHeader(filePath);
+    if (version !== undefined && version > CONFIG_VERSION) {
+        throw new Error(
+            `${filePath} is written for config version ${version}; this release understands up to ${CONFIG_VERSION}, so it was left unchanged.`,
+        );
+    }
+
+    const below = CONFIG_LAYERS[CONFIG_LAYERS.indexOf(layer) - 1] ?? "default";
+    const base = mergeConfigLayers(loaded.layers, below).config;
+
+    const values: ConfigLayerValues = { ...loaded.layers[layer] };
+    for (const key of CONFIG_KEYS) {
+        if (!isSameConfigValue(config[key], loaded.config[key])) {
+            Object.assign(values, { [key]: config[key] });
+        }
+    }
+
+    const overrides: ConfigLayerValues = {};
+    for (const key of CONFIG_KEYS) {
+        if (values[key] !== undefined && !isSameConfigValue(values[key], base[key])) {
+            Object.assign(overrides, { [key]: values[key] });
+        }
+    }
+
     const overrideCount = Object.keys(overrides).length;
 
     if (overrideCount === 0) {
-        await rm(GLOBAL_CONFIG_PATH, { force: true });
+        await rm(filePath, { force: true });
         return {
             wroteFile: false,
             overrideCount,
+            filePath,
         };
     }
 
-    await mkdir(path.dirname(GLOBAL_CONFIG_PATH), { recursive: true });
-    await writeFile(GLOBAL_CONFIG_PATH, `${JSON.stringify(overrides, null, 4)}\n`, "utf8");
+    const file = { ...(schema !== undefined ? { $schema: schema } : {}), version: CONFIG_VERSION, ...overrides };
+
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, `${JSON.stringify(file, null, 4)}\n`, "utf8");
 
     return {
         wroteFile: true,
         overrideCount,
+        filePath,
     };
 }
 
+function formatCommandLine(file: string, args: string[]): string {
+    return [file, ...args].map((part) => (/[\s"']/.test(part) ? JSON.stringify(part) : part)).join(" ");
+}
+
+function getExitStatus(error: unknown): string {
+    if (!error || typeof error !== "object") {
+        return "error";
+    }
+
+    const { code, signal, killed } = error as { code?: unknown; signal?: unknown; killed?: unknown };
+    if (killed && typeof signal === "string") {
+        return `timeout (${signal})`;
+    }
+
+    if (typeof code === "number" || typeof code === "string") {
+        return String(code);
+    }
+
+    return typeof signal === "string" ? signal : "error";
+}
+
+/**
+ * Runs a detection command with the detector's timeout and records it in `trace`.
+ * Never throws: failures come back as a step with a non-zero `exitStatus` and the stderr as output.
+ */
+async function runDetectionCommand(
+    trace: DetectionTrace,
+    backend: string,
+    file: string,
+    args: string[],
+    timeoutMs = DETECTION_TIMEOUT_MS,
+): Promise<{ step: DetectionStep; ok: boolean; stdout: string; stderr: string }> {
+    const step: DetectionStep = { backend, command: formatCommandLine(file, args), appearance: null };
+    trace.push(step);
+
+    try {
+        const { stdout } = await execFileAsync(file, args, {
+            timeout: timeoutMs,
+            windowsHide: true,
+        });
+
+        step.exitStatus = "0";
+        step.output = stdout.trim();
+        return { step, ok: true, stdout, stderr: "" };
+    } catch (error) {
+        const stderr = extractStderr(error);
+        step.exitStatus = getExitStatus(error);
+        step.output = (stderr || (error instanceof Error ? error.message : "")).trim();
+        return { step, ok: false, stdout: "", stderr };
+    }
+}
+
 function extractStderr(error: unknown): string {
     if (!error || typeof error !== "object") {
         return "";
@@ -176,259 +886,3345 @@ function parseGtkThemeAppearance(value: string | null): Appearance | null {
     return null;
 }
 
-function parseWindowsAppsUseLightThemeValue(registryOutput: string): Appearance | null {
-    const match = registryOutput.match(/AppsUseLightTheme\s+REG_DWORD\s+(\S+)/i);
+/**
+ * Parses the `color-scheme` variant returned by `org.freedesktop.portal.Settings`.
+ *
+ * Accepts both `gdbus call` output (`(<uint32 1>,)`, or `(<<uint32 1>>,)` from the older `Read` method)
+ * and `busctl call` output (`v u 1`, or `v v u 1` from `Read`). Per the portal spec 1 means dark, 2 means
+ * light, 0 means no preference.
+ */
+function parsePortalColorScheme(output: string): Appearance | null {
+    const match = output.match(/uint32\s+(\d+)/) ?? output.match(/\bv\s+u\s+(\d+)/);
     if (!match) {
         return null;
     }
 
-    const rawValue = match[1] ?? "";
-
-    let parsedValue: number;
-    if (rawValue.toLowerCase().startsWith("0x")) {
-        parsedValue = Number.parseInt(rawValue.slice(2), 16);
-    } else {
-        parsedValue = Number.parseInt(rawValue, 10);
-    }
+    const value = Number.parseInt(match[1] ?? "", 10);
 
-    if (parsedValue === 0) {
+    if (value === 1) {
         return "dark";
     }
 
-    if (parsedValue === 1) {
+    if (value === 2) {
         return "light";
     }
 
     return null;
 }
 
-async function readGnomeInterfaceSetting(key: string): Promise<string | null> {
-    try {
-        const { stdout } = await execFileAsync("gsettings", ["get", "org.gnome.desktop.interface", key], {
-            timeout: DETECTION_TIMEOUT_MS,
-            windowsHide: true,
-        });
+function parseIniSections(content: string): Map<string, Map<string, string>> {
+    const sections = new Map<string, Map<string, string>>();
+    let current: Map<string, string> | undefined;
 
-        return normalizeSettingValue(stdout);
-    } catch {
-        return null;
-    }
-}
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (line.length === 0 || line.startsWith("#") || line.startsWith(";")) {
+            continue;
+        }
 
-async function detectMacAppearance(): Promise<Appearance | null> {
-    try {
-        const { stdout } = await execFileAsync("/usr/bin/defaults", ["read", "-g", "AppleInterfaceStyle"], {
-            timeout: DETECTION_TIMEOUT_MS,
-            windowsHide: true,
-        });
+        const header = line.match(/^\[(.+)\]$/);
+        if (header) {
+            const name = header[1] ?? "";
+            current = sections.get(name) ?? new Map<string, string>();
+            sections.set(name, current);
+            continue;
+        }
 
-        return parseMacAppearance(normalizeSettingValue(stdout));
-    } catch (error) {
-        const stderr = extractStderr(error).toLowerCase();
-        if (stderr.includes("does not exist")) {
-            return "light";
+        const separatorIndex = line.indexOf("=");
+        if (!current || separatorIndex <= 0) {
+            continue;
         }
 
-        return null;
+        // KDE appends locale/flags to keys (`Name[de]`, `ColorScheme[$e]`); keep only the base key.
+        const key = line
+            .slice(0, separatorIndex)
+            .replace(/\[.*\]$/, "")
+            .trim();
+        if (!current.has(key)) {
+            current.set(key, line.slice(separatorIndex + 1).trim());
+        }
     }
+
+    return sections;
 }
 
-async function detectLinuxAppearance(): Promise<Appearance | null> {
-    const fromColorScheme = parseGnomeColorScheme(await readGnomeInterfaceSetting("color-scheme"));
-    if (fromColorScheme) {
-        return fromColorScheme;
-    }
+function relativeLuminance(red: number, green: number, blue: number): number {
+    const linearize = (channel: number) =>
+        channel <= 0.03928 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
 
-    return parseGtkThemeAppearance(await readGnomeInterfaceSetting("gtk-theme"));
+    return 0.2126 * linearize(red) + 0.7152 * linearize(green) + 0.0722 * linearize(blue);
 }
 
-async function detectWindowsAppearance(): Promise<Appearance | null> {
-    try {
-        const { stdout } = await execFileAsync(
-            "reg",
-            [
-                "query",
-                "HKCU\\Software\\Microsoft\\Windows\\CurrentVersion\\Themes\\Personalize",
-                "/v",
-                "AppsUseLightTheme",
-            ],
-            {
-                timeout: DETECTION_TIMEOUT_MS,
-                windowsHide: true,
-            },
-        );
+function parseRgbTripletAppearance(value: string | undefined): Appearance | null {
+    if (!value) {
+        return null;
+    }
 
-        return parseWindowsAppsUseLightThemeValue(stdout);
-    } catch {
+    const channels = value.split(",").map((part) => Number.parseInt(part.trim(), 10));
+    if (channels.length < 3 || channels.slice(0, 3).some((channel) => !Number.isFinite(channel))) {
         return null;
     }
+
+    const [red, green, blue] = channels.map((channel) => Math.min(255, Math.max(0, channel)) / 255);
+    return relativeLuminance(red ?? 0, green ?? 0, blue ?? 0) > LIGHT_LUMINANCE_THRESHOLD ? "light" : "dark";
 }
 
-async function detectAppearance(): Promise<Appearance | null> {
-    switch (process.platform) {
-        case "darwin":
-            return detectMacAppearance();
-        case "linux":
-            return detectLinuxAppearance();
-        case "win32":
-            return detectWindowsAppearance();
-        default:
-            return null;
+/** Reads GTK's `settings.ini`: the dark-variant flag wins, otherwise the theme name decides. */
+function parseGtkSettingsAppearance(content: string): Appearance | null {
+    const settings = parseIniSections(content).get("Settings");
+
+    const preferDark = normalizeSettingValue(settings?.get("gtk-application-prefer-dark-theme") ?? "");
+    if (preferDark === "true" || preferDark === "1") {
+        return "dark";
     }
+
+    const themeName = settings?.get("gtk-theme-name");
+    return parseGtkThemeAppearance(themeName ? normalizeSettingValue(themeName) : null);
 }
 
-async function promptTheme(
-    ctx: ExtensionCommandContext,
-    label: string,
-    currentValue: string,
-): Promise<string | undefined> {
-    const next = await ctx.ui.input(label, currentValue);
-    if (next === undefined) {
+/**
+ * Maps a `kdeglobals` file to an appearance.
+ *
+ * Scheme names are checked first (`[General] ColorScheme`, then `[KDE] LookAndFeelPackage`). Names such as
+ * `Breeze` or `org.kde.breeze.desktop` say nothing about brightness, so the window background colour
+ * (`[Colors:Window] BackgroundNormal`) decides in that case.
+ */
+function parseKdeGlobalsAppearance(content: string): Appearance | null {
+    const sections = parseIniSections(content);
+
+    const colorScheme = sections.get("General")?.get("ColorScheme");
+    const fromColorScheme = parseGtkThemeAppearance(colorScheme?.toLowerCase() ?? null);
+    if (fromColorScheme) {
+        return fromColorScheme;
+    }
+
+    const lookAndFeel = sections.get("KDE")?.get("LookAndFeelPackage");
+    const fromLookAndFeel = parseGtkThemeAppearance(lookAndFeel?.toLowerCase() ?? null);
+    if (fromLookAndFeel) {
+        return fromLookAndFeel;
+    }
+
+    return parseRgbTripletAppearance(sections.get("Colors:Window")?.get("BackgroundNormal"));
+}
+
+/**
+ * Parses an OSC 11 background colour reply (`rgb:RRRR/GGGG/BBBB`, 1-4 hex digits per channel)
+ * and classifies it by relative luminance.
+ */
+function parseOsc11Appearance(reply: string): Appearance | null {
+    const match = reply.match(/rgba?:([0-9a-f]{1,4})\/([0-9a-f]{1,4})\/([0-9a-f]{1,4})/i);
+    if (!match) {
+        return null;
+    }
+
+    const [red, green, blue] = match.slice(1, 4).map((hex) => Number.parseInt(hex, 16) / (16 ** hex.length - 1));
+    return relativeLuminance(red ?? 0, green ?? 0, blue ?? 0) > LIGHT_LUMINANCE_THRESHOLD ? "light" : "dark";
+}
+
+/**
+ * Parses `COLORFGBG` (`fg;bg` or `fg;default;bg`, as set by rxvt, Konsole, iTerm2 and others).
+ * The background is an ANSI palette index: 7 and 9-15 are light, 0-6 and 8 are dark.
+ */
+function parseColorFgBgAppearance(value: string | undefined): Appearance | null {
+    const background = value?.split(";").pop()?.trim();
+    if (!background || !/^\d+$/.test(background)) {
+        return null;
+    }
+
+    const index = Number.parseInt(background, 10);
+    if (index > 15) {
+        return null;
+    }
+
+    return index === 7 || index >= 9 ? "light" : "dark";
+}
+
+function clockTimeToMinutes(value: string): number {
+    const [hours, minutes] = value.split(":").map((part) => Number.parseInt(part, 10));
+    return (hours ?? 0) * 60 + (minutes ?? 0);
+}
+
+function getFixedScheduleAppearance(now: Date, lightAt: string, darkAt: string): Appearance | null {
+    const current = now.getHours() * 60 + now.getMinutes();
+    const lightStart = clockTimeToMinutes(lightAt);
+    const darkStart = clockTimeToMinutes(darkAt);
+
+    if (lightStart === darkStart) {
+        return null;
+    }
+
+    const isLight =
+        lightStart < darkStart
+            ? current >= lightStart && current < darkStart
+            : current >= lightStart || current < darkStart;
+
+    return isLight ? "light" : "dark";
+}
+
+type SunTimes = { sunrise: Date; sunset: Date } | "polar-day" | "polar-night";
+
+/**
+ * Computes sunrise and sunset around the solar noon closest to `now` with the NOAA sunrise equation
+ * (about a minute of accuracy outside the polar circles; no network or timezone data needed).
+ */
+function computeSunTimes(now: Date, latitude: number, longitude: number): SunTimes {
+    const radians = Math.PI / 180;
+    const julianDate = now.getTime() / MS_PER_DAY + JULIAN_UNIX_EPOCH;
+
+    const cycle = Math.round(julianDate - JULIAN_J2000 - 0.0009 + longitude / 360);
+    const meanSolarNoon = cycle + 0.0009 - longitude / 360;
+    const meanAnomaly = (357.5291 + 0.98560028 * meanSolarNoon) % 360;
+    const center =
+        1.9148 * Math.sin(meanAnomaly * radians) +
+        0.02 * Math.sin(2 * meanAnomaly * radians) +
+        0.0003 * Math.sin(3 * meanAnomaly * radians);
+    const eclipticLongitude = (meanAnomaly + center + 180 + 102.9372) % 360;
+    const solarTransit =
+        JULIAN_J2000 +
+        meanSolarNoon +
+        0.0053 * Math.sin(meanAnomaly * radians) -
+        0.0069 * Math.sin(2 * eclipticLongitude * radians);
+
+    const declination = Math.asin(Math.sin(eclipticLongitude * radians) * Math.sin(23.4397 * radians));
+    const hourAngleCosine =
+        (Math.sin(-0.833 * radians) - Math.sin(latitude * radians) * Math.sin(declination)) /
+        (Math.cos(latitude * radians) * Math.cos(declination));
+
+    if (hourAngleCosine < -1) {
+        return "polar-day";
+    }
+
+    if (hourAngleCosine > 1) {
+        return "polar-night";
+    }
+
+    const hourAngle = Math.acos(hourAngleCosine) / radians;
+    const toDate = (julian: number) => new Date((julian - JULIAN_UNIX_EPOCH) * MS_PER_DAY);
+
+    return {
+        sunrise: toDate(solarTransit - hourAngle / 360),
+        sunset: toDate(solarTransit + hourAngle / 360),
+    };
+}
+
+function getScheduleAppearance(schedule: ScheduleConfig | null, now: Date = new Date()): Appearance | null {
+    if (!schedule) {
+        return null;
+    }
+
+    if (schedule.latitude !== undefined && schedule.longitude !== undefined) {
+        const sunTimes = computeSunTimes(now, schedule.latitude, schedule.longitude);
+        if (sunTimes === "polar-day") {
+            return "light";
+        }
+
+        if (sunTimes === "polar-night") {
+            return "dark";
+        }
+
+        return now >= sunTimes.sunrise && now < sunTimes.sunset ? "light" : "dark";
+    }
+
+    if (schedule.lightAt && schedule.darkAt) {
+        return getFixedScheduleAppearance(now, schedule.lightAt, schedule.darkAt);
+    }
+
+    return null;
+}
+
+function parseWindowsAppsUseLightThemeValue(registryOutput: string): Appearance | null {
+    const match = registryOutput.match(/AppsUseLightTheme\s+REG_DWORD\s+(\S+)/i);
+    if (!match) {
+        return null;
+    }
+
+    const rawValue = match[1] ?? "";
+
+    let parsedValue: number;
+    if (rawValue.toLowerCase().startsWith("0x")) {
+        parsedValue = Number.parseInt(rawValue.slice(2), 16);
+    } else {
+        parsedValue = Number.parseInt(rawValue, 10);
+    }
+
+    if (parsedValue === 0) {
+        return "dark";
+    }
+
+    if (parsedValue === 1) {
+        return "light";
+    }
+
+    return null;
+}
+
+/** Accepts `dark`/`light`, `1`/`0` or `true`/`false` (where `1`/`true` mean dark). */
+function parseDetectCommandOutput(stdout: string): Appearance | null {
+    const value = normalizeSettingValue(stdout.split(/\r?\n/)[0] ?? "").toLowerCase();
+
+    if (value === "dark" || value === "1" || value === "true") {
+        return "dark";
+    }
+
+    if (value === "light" || value === "0" || value === "false") {
+        return "light";
+    }
+
+    return null;
+}
+
+/** Accepts `dark`/`light` as plain text, a JSON string, or a JSON object with an `appearance` field. */
+function parseAppearanceFileContent(content: string): Appearance | null {
+    let value: unknown = content.trim();
+
+    if (/^[{"]/.test(content.trim())) {
+        try {
+            const parsed = JSON.parse(content) as unknown;
+            value = isObject(parsed) ? parsed.appearance : parsed;
+        } catch {
+            return null;
+        }
+    }
+
+    if (typeof value !== "string") {
+        return null;
+    }
+
+    const normalized = value.trim().toLowerCase();
+    return normalized === "dark" || normalized === "light" ? normalized : null;
+}
+
+function parseGnomeHighContrast(value: string | null): boolean | null {
+    if (value === "true" || value === "false") {
+        return value === "true";
+    }
+
+    return null;
+}
+
+function parseMacIncreaseContrast(value: string): boolean | null {
+    if (value === "1" || value === "0") {
+        return value === "1";
+    }
+
+    return null;
+}
+
+/** Reads `HighContrast\\Flags`, a REG_SZ bitmask whose lowest bit (`HCF_HIGHCONTRASTON`) means on. */
+function parseWindowsHighContrastFlags(registryOutput: string): boolean | null {
+    const match = registryOutput.match(/Flags\s+REG_SZ\s+(\d+)/i);
+    if (!match) {
+        return null;
+    }
+
+    return (Number.parseInt(match[1] ?? "", 10) & 1) === 1;
+}
+
+/** Big-endian unsigned read of 1-8 bytes; throws `RangeError` past the end of `data`. */
+function readUnsignedBE(data: Buffer, offset: number, size: number): number {
+    if (offset < 0 || size < 1 || size > 8 || offset + size > data.length) {
+        throw new RangeError(`Read of ${size} bytes at ${offset} is out of bounds`);
+    }
+
+    let value = 0;
+    for (let index = 0; index < size; index++) {
+        value = value * 256 + (data[offset + index] ?? 0);
+    }
+
+    return value;
+}
+
+/** The GVDB key hash: djb2 over the key's bytes, each taken as a signed char like GLib does. */
+function getGvdbHash(key: Buffer): number {
+    let hash = 5381;
+    for (const byte of key) {
+        hash = (Math.imul(hash, 33) + ((byte << 24) >> 24)) >>> 0;
+    }
+
+    return hash;
+}
+
+/**
+ * Looks up a string in a GVDB file, the format of the dconf user database (`~/.config/dconf/user`).
+ *
+ * Follows GLib's `gvdb-reader.c`: hash the full key, scan that bucket's items, and confirm the name by
+ * walking the parent chain (dconf stores each path segment relative to its parent directory).
+ * Returns `null` when the key is absent and `undefined` when the file is not a little-endian GVDB
+ * file or the value is not a string.
+ */
+function readGvdbString(data: Buffer, key: string): string | null | undefined {
+    try {
+        if (data.subarray(0, 8).toString("latin1") !== GVDB_SIGNATURE) {
+            return undefined;
+        }
+
+        const tableStart = data.readUInt32LE(16);
+        const tableEnd = data.readUInt32LE(20);
+        if (tableEnd > data.length || tableStart + 8 > tableEnd) {
+            return undefined;
+        }
+
+        const bloomWords = data.readUInt32LE(tableStart) & ((1 << 27) - 1);
+        const bucketCount = data.readUInt32LE(tableStart + 4);
+        const bucketsStart = tableStart + 8 + bloomWords * 4;
+        const itemsStart = bucketsStart + bucketCount * 4;
+        if (bucketCount === 0 || itemsStart > tableEnd) {
+            return undefined;
+        }
+
+        const itemCount = Math.floor((tableEnd - itemsStart) / GVDB_HASH_ITEM_SIZE);
+        const readItem = (index: number) => {
+            const offset = itemsStart + index * GVDB_HASH_ITEM_SIZE;
+            const keyStart = data.readUInt32LE(offset + 8);
+            const keySize = data.readUInt16LE(offset + 12);
+            if (keyStart + keySize > data.length) {
+                throw new RangeError("GVDB key is out of bounds");
+            }
+
+            return {
+                hash: data.readUInt32LE(offset),
+                parent: data.readUInt32LE(offset + 4),
+                key: data.subarray(keyStart, keyStart + keySize),
+                type: String.fromCharCode(data[offset + 14] ?? 0),
+                valueStart: data.readUInt32LE(offset + 16),
+                valueEnd: data.readUInt32LE(offset + 20),
+            };
+        };
+
+        const keyBytes = Buffer.from(key, "utf8");
+        const hasName = (index: number, length: number): boolean => {
+            const item = readItem(index);
+            if (item.key.length > length || !item.key.equals(keyBytes.subarray(length - item.key.length, length))) {
+                return false;
+            }
+
+            const remaining = length - item.key.length;
+            if (remaining === 0 && item.parent === GVDB_NO_PARENT) {
+                return true;
+            }
+
+            return item.parent < itemCount && item.key.length > 0 && hasName(item.parent, remaining);
+        };
+
+        const hash = getGvdbHash(keyBytes);
+        const bucket = hash % bucketCount;
+        const first = data.readUInt32LE(bucketsStart + bucket * 4);
+        const last = bucket + 1 < bucketCount ? data.readUInt32LE(bucketsStart + (bucket + 1) * 4) : itemCount;
+
+        for (let index = first; index < Math.min(last, itemCount); index++) {
+            const item = readItem(index);
+            if (item.hash !== hash || !hasName(index, keyBytes.length)) {
+                continue;
+            }
+
+            if (item.type !== "v" || item.valueEnd > data.length || item.valueStart >= item.valueEnd) {
+                return undefined;
+            }
+
+            // A serialized `v` GVariant: the child value, a NUL, then the child's type string.
+            const value = data.subarray(item.valueStart, item.valueEnd);
+            const separator = value.lastIndexOf(0);
+            if (separator < 1 || value.subarray(separator + 1).toString("latin1") !== "s") {
+                return undefined;
+            }
+
+            return value.subarray(0, value.lastIndexOf(0, separator - 1)).toString("utf8");
+        }
+
+        return null;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Looks up a string in the top-level dictionary of a binary property list (`bplist00`), the format
+ * `cfprefsd` writes preference files in.
+ *
+ * Returns `null` when the key is absent and `undefined` when the file is not a binary plist with a
+ * dictionary at the top, or the value is not a string.
+ */
+function readBinaryPlistString(data: Buffer, key: string): string | null | undefined {
+    try {
+        if (data.subarray(0, 8).toString("latin1") !== BPLIST_SIGNATURE || data.length < BPLIST_TRAILER_SIZE + 8) {
+            return undefined;
+        }
+
+        const trailer = data.length - BPLIST_TRAILER_SIZE;
+        const offsetSize = readUnsignedBE(data, trailer + 6, 1);
+        const refSize = readUnsignedBE(data, trailer + 7, 1);
+        const objectCount = readUnsignedBE(data, trailer + 8, 8);
+        const topObject = readUnsignedBE(data, trailer + 16, 8);
+        const offsetTable = readUnsignedBE(data, trailer + 24, 8);
+
+        const getObjectOffset = (ref: number): number => {
+            if (ref >= objectCount) {
+                throw new RangeError(`Object ${ref} is out of range`);
+            }
+
+            return readUnsignedBE(data, offsetTable + ref * offsetSize, offsetSize);
+        };
+
+        // Returns the object's type nibble, its length, and where its payload starts.
+        const readHeader = (offset: number) => {
+            const marker = readUnsignedBE(data, offset, 1);
+            let length = marker & 0x0f;
+            let start = offset + 1;
+
+            if (length === 0x0f) {
+                const lengthMarker = readUnsignedBE(data, start, 1);
+                if (lengthMarker >> 4 !== 0x1) {
+                    throw new RangeError("Malformed object length");
+                }
+
+                const lengthSize = 1 << (lengthMarker & 0x0f);
+                length = readUnsignedBE(data, start + 1, lengthSize);
+                start += 1 + lengthSize;
+            }
+
+            return { type: marker >> 4, length, start };
+        };
+
+        const readString = (ref: number): string | undefined => {
+            const { type, length, start } = readHeader(getObjectOffset(ref));
+
+            if (type === 0x5 && start + length <= data.length) {
+                return data.subarray(start, start + length).toString("latin1");
+            }
+
+            if (type === 0x6 && start + length * 2 <= data.length) {
+                // UTF-16BE; swap into a copy so `data` stays untouched.
+                return Buffer.from(data.subarray(start, start + length * 2))
+                    .swap16()
+                    .toString("utf16le");
+            }
+
+            return undefined;
+        };
+
+        const top = readHeader(getObjectOffset(topObject));
+        if (top.type !== 0xd) {
+            return undefined;
+        }
+
+        for (let index = 0; index < top.length; index++) {
+            const keyRef = readUnsignedBE(data, top.start + index * refSize, refSize);
+            if (readString(keyRef) !== key) {
+                continue;
+            }
+
+            const valueRef = readUnsignedBE(data, top.start + (top.length + index) * refSize, refSize);
+            return readString(valueRef);
+        }
+
+        return null;
+    } catch {
         return undefined;
     }
+}
+
+async function readGSetting(
+    schema: string,
+    key: string,
+    parse: (value: string | null) => Appearance | null,
+    trace: DetectionTrace,
+    timeoutMs = DETECTION_TIMEOUT_MS,
+): Promise<Appearance | null> {
+    const result = await runDetectionCommand(trace, "gsettings", "gsettings", ["get", schema, key], timeoutMs);
+
+    result.step.appearance = parse(result.ok ? normalizeSettingValue(result.stdout) : null);
+    return result.step.appearance;
+}
+
+function getXdgConfigHome(): string {
+    const fromEnv = process.env.XDG_CONFIG_HOME?.trim();
+    return fromEnv && path.isAbsolute(fromEnv) ? fromEnv : path.join(os.homedir(), ".config");
+}
+
+type LinuxDesktop = "kde" | "gnome" | "xfce" | "cinnamon" | "mate" | "other";
+
+/** Desktop names as they appear in `XDG_CURRENT_DESKTOP`, plus common `DESKTOP_SESSION` spellings. */
+const LINUX_DESKTOP_NAMES: ReadonlyArray<{ desktop: LinuxDesktop; names: string[] }> = [
+    { desktop: "kde", names: ["KDE", "PLASMA", "PLASMAWAYLAND", "PLASMAX11"] },
+    { desktop: "cinnamon", names: ["X-CINNAMON", "CINNAMON", "CINNAMON2D", "CINNAMON-WAYLAND"] },
+    { desktop: "mate", names: ["MATE"] },
+    { desktop: "xfce", names: ["XFCE", "XFCE4", "XUBUNTU"] },
+    {
+        desktop: "gnome",
+        names: ["GNOME", "GNOME-XORG", "GNOME-WAYLAND", "GNOME-CLASSIC", "UNITY", "UBUNTU", "UBUNTU-WAYLAND"],
+    },
+];
+
+/**
+ * Classifies the session from `XDG_CURRENT_DESKTOP` (a colon-separated list such as `ubuntu:GNOME`),
+ * or from `DESKTOP_SESSION` when the display manager leaves the former unset.
+ */
+function getLinuxDesktop(): LinuxDesktop {
+    const value = process.env.XDG_CURRENT_DESKTOP?.trim() || process.env.DESKTOP_SESSION?.trim() || "";
+    const entries = value.split(":").map((entry) => entry.trim().toUpperCase());
+
+    const match = LINUX_DESKTOP_NAMES.find(({ names }) => entries.some((entry) => names.includes(entry)));
+    return match?.desktop ?? "other";
+}
+
+function getGtkSettingsPath(): string {
+    return path.join(getXdgConfigHome(), "gtk-3.0", "settings.ini");
+}
+
+async function detectKdeAppearance(trace: DetectionTrace): Promise<Appearance | null> {
+    const filePath = path.join(getXdgConfigHome(), "kdeglobals");
+    const step: DetectionStep = { backend: "kde", command: filePath, appearance: null };
+    trace.push(step);
+
+    try {
+        const content = await readFile(filePath, "utf8");
+        step.exitStatus = "0";
+        step.appearance = parseKdeGlobalsAppearance(content);
+    } catch (error) {
+        step.exitStatus = getExitStatus(error);
+    }
+
+    return step.appearance;
+}
+
+/** Reads `color-scheme` straight from the dconf user database, which is what `gsettings` returns on GNOME. */
+async function detectDconfAppearance(trace: DetectionTrace): Promise<Appearance | null> {
+    const filePath = path.join(getXdgConfigHome(), "dconf", "user");
+    const step: DetectionStep = { backend: "dconf", command: filePath, appearance: null };
+    trace.push(step);
+
+    try {
+        const value = readGvdbString(await readFile(filePath), DCONF_COLOR_SCHEME_KEY);
+        step.exitStatus = value === undefined ? "invalid" : "0";
+        step.output = value ?? undefined;
+        step.appearance = parseGnomeColorScheme(value ?? null);
+    } catch (error) {
+        step.exitStatus = getExitStatus(error);
+    }
+
+    return step.appearance;
+}
+
+async function detectXfceAppearance(
+    trace: DetectionTrace,
+    timeoutMs = DETECTION_TIMEOUT_MS,
+): Promise<Appearance | null> {
+    const result = await runDetectionCommand(
+        trace,
+        "xfconf",
+        "xfconf-query",
+        ["-c", "xsettings", "-p", "/Net/ThemeName"],
+        timeoutMs,
+    );
+
+    result.step.appearance = result.ok ? parseGtkThemeAppearance(normalizeSettingValue(result.stdout)) : null;
+    return result.step.appearance;
+}
+
+async function detectGtkSettingsAppearance(trace: DetectionTrace): Promise<Appearance | null> {
+    const filePath = getGtkSettingsPath();
+    const step: DetectionStep = { backend: "gtk-settings", command: filePath, appearance: null };
+    trace.push(step);
+
+    try {
+        const content = await readFile(filePath, "utf8");
+        step.exitStatus = "0";
+        step.appearance = parseGtkSettingsAppearance(content);
+    } catch (error) {
+        step.exitStatus = getExitStatus(error);
+    }
+
+    return step.appearance;
+}
+
+function getPortalReadArgs(tool: "gdbus" | "busctl", method: "ReadOne" | "Read"): string[] {
+    return tool === "gdbus"
+        ? [
+              "call",
+              "--session",
+              "--dest",
+              PORTAL_DESTINATION,
+              "--object-path",
+              PORTAL_OBJECT_PATH,
+              "--method",
+              `${PORTAL_SETTINGS_INTERFACE}.${method}`,
+              PORTAL_APPEARANCE_NAMESPACE,
+              "color-scheme",
+          ]
+        : [
+              "--user",
+              "call",
+              PORTAL_DESTINATION,
+              PORTAL_OBJECT_PATH,
+              PORTAL_SETTINGS_INTERFACE,
+              method,
+              "ss",
+              PORTAL_APPEARANCE_NAMESPACE,
+              "color-scheme",
+          ];
+}
+
+async function detectPortalAppearance(
+    trace: DetectionTrace,
+    timeoutMs = DETECTION_TIMEOUT_MS,
+): Promise<Appearance | null> {
+    // gdbus may be missing (non-GLib systems); busctl ships with systemd.
+    for (const tool of ["gdbus", "busctl"] as const) {
+        let result = await runDetectionCommand(trace, "portal", tool, getPortalReadArgs(tool, "ReadOne"), timeoutMs);
+
+        // Portals older than version 2 of the Settings interface only implement the deprecated `Read`.
+        if (!result.ok && /UnknownMethod|No such method|Unknown method/i.test(result.stderr)) {
+            result = await runDetectionCommand(trace, "portal", tool, getPortalReadArgs(tool, "Read"), timeoutMs);
+        }
+
+        if (result.ok) {
+            result.step.appearance = parsePortalColorScheme(result.stdout);
+            return result.step.appearance;
+        }
+    }
+
+    return null;
+}
+
+type AppearanceMonitor = {
+    command: string;
+    args: string[];
+    /** Returns true when a monitor output line may signal an appearance change. */
+    isRelevantLine: (line: string) => boolean;
+};
+
+function getGtkThemeMonitor(schema: string): AppearanceMonitor {
+    return {
+        command: "gsettings",
+        args: ["monitor", schema, "gtk-theme"],
+        isRelevantLine: (line) => /^\s*gtk-theme:/.test(line),
+    };
+}
+
+/**
+ * Picks the long-lived change monitor for Linux: the desktop's own settings store on GNOME, XFCE,
+ * Cinnamon and MATE, otherwise the portal's `SettingChanged` signal (KDE, COSMIC, wlroots, ...).
+ */
+function getLinuxAppearanceMonitor(): AppearanceMonitor | null {
+    const desktop = getLinuxDesktop();
+
+    if (desktop === "gnome") {
+        return {
+            command: "gsettings",
+            args: ["monitor", "org.gnome.desktop.interface"],
+            isRelevantLine: (line) => /^\s*(color-scheme|gtk-theme):/.test(line),
+        };
+    }
+
+    if (desktop === "xfce") {
+        return {
+            command: "xfconf-query",
+            args: ["-c", "xsettings", "-p", "/Net/ThemeName", "-m"],
+            isRelevantLine: (line) => /^(re)?set: \/Net\/ThemeName/.test(line.trim()),
+        };
+    }
+
+    if (desktop === "cinnamon") {
+        return getGtkThemeMonitor("org.cinnamon.desktop.interface");
+    }
+
+    if (desktop === "mate") {
+        return getGtkThemeMonitor("org.mate.interface");
+    }
+
+    // Nothing signals edits to GTK's settings.ini, which standalone window managers rely on.
+    if (desktop === "other" && existsSync(getGtkSettingsPath())) {
+        return null;
+    }
+
+    return {
+        command: "gdbus",
+        args: ["monitor", "--session", "--dest", PORTAL_DESTINATION, "--object-path", PORTAL_OBJECT_PATH],
+        isRelevantLine: (line) => line.includes("SettingChanged") && line.includes(PORTAL_APPEARANCE_NAMESPACE),
+    };
+}
+
+function getAppearanceMonitor(config: Config): AppearanceMonitor | null {
+    // A schedule changes with the clock and the terminal or a command may not follow the OS setting the
+    // monitors watch, so any such detector needs the poll loop; an appearance file has its own watcher.
+    if (!getActiveDetectors(config).every((name) => MONITORED_DETECTORS.includes(name))) {
+        return null;
+    }
+
+    // The monitors only watch the colour scheme; the contrast setting is picked up by polling.
+    if (hasHighContrastThemes(config)) {
+        return null;
+    }
+
+    return process.platform === "linux" ? getLinuxAppearanceMonitor() : null;
+}
+
+/** Reads `AppleInterfaceStyle` from the global preferences plist, which is what `defaults read -g` reports. */
+async function detectMacPlistAppearance(trace: DetectionTrace): Promise<Appearance | null> {
+    const filePath = path.join(os.homedir(), "Library", "Preferences", ".GlobalPreferences.plist");
+    const step: DetectionStep = { backend: "plist", command: filePath, appearance: null };
+    trace.push(step);
+
+    try {
+        const value = readBinaryPlistString(await readFile(filePath), "AppleInterfaceStyle");
+        step.exitStatus = value === undefined ? "invalid" : "0";
+        step.output = value ?? undefined;
+        // Light mode is the absence of the key, as with `defaults`.
+        step.appearance = value === null ? "light" : parseMacAppearance(normalizeSettingValue(value ?? ""));
+    } catch (error) {
+        step.exitStatus = getExitStatus(error);
+    }
+
+    return step.appearance;
+}
+
+async function detectMacDefaultsAppearance(
+    trace: DetectionTrace,
+    timeoutMs = DETECTION_TIMEOUT_MS,
+): Promise<Appearance | null> {
+    const result = await runDetectionCommand(
+        trace,
+        "defaults",
+        "/usr/bin/defaults",
+        ["read", "-g", "AppleInterfaceStyle"],
+        timeoutMs,
+    );
+
+    if (result.ok) {
+        result.step.appearance = parseMacAppearance(normalizeSettingValue(result.stdout));
+    } else if (result.stderr.toLowerCase().includes("does not exist")) {
+        result.step.appearance = "light";
+    }
+
+    return result.step.appearance;
+}
+
+async function detectMacAppearance(
+    trace: DetectionTrace,
+    timeoutMs = DETECTION_TIMEOUT_MS,
+): Promise<Appearance | null> {
+    const fromPlist = await detectMacPlistAppearance(trace);
+    if (fromPlist) {
+        return fromPlist;
+    }
+
+    return detectMacDefaultsAppearance(trace, timeoutMs);
+}
+
+/** The desktop's own setting, tried before the portal; GNOME's is read straight from dconf. */
+async function detectLinuxDesktopAppearance(
+    desktop: LinuxDesktop,
+    trace: DetectionTrace,
+    timeoutMs = DETECTION_TIMEOUT_MS,
+): Promise<Appearance | null> {
+    switch (desktop) {
+        case "kde":
+            return detectKdeAppearance(trace);
+        case "gnome":
+            return detectDconfAppearance(trace);
+        case "xfce":
+            return detectXfceAppearance(trace, timeoutMs);
+        case "cinnamon":
+        case "mate":
+            return detectGSettingsAppearance(trace, timeoutMs);
+        case "other":
+            return null;
+    }
+}
+
+/** Reads the gsettings schema the desktop keeps its theme in: Cinnamon's, MATE's, or else GNOME's. */
+async function detectGSettingsAppearance(
+    trace: DetectionTrace,
+    timeoutMs = DETECTION_TIMEOUT_MS,
+): Promise<Appearance | null> {
+    const desktop = getLinuxDesktop();
+    if (desktop === "cinnamon" || desktop === "mate") {
+        const schema = desktop === "cinnamon" ? "org.cinnamon.desktop.interface" : "org.mate.interface";
+        return readGSetting(schema, "gtk-theme", parseGtkThemeAppearance, trace, timeoutMs);
+    }
+
+    return detectGnomeGSettingsAppearance(trace, timeoutMs);
+}
+
+async function detectGnomeGSettingsAppearance(
+    trace: DetectionTrace,
+    timeoutMs = DETECTION_TIMEOUT_MS,
+): Promise<Appearance | null> {
+    const fromColorScheme = await readGSetting(
+        "org.gnome.desktop.interface",
+        "color-scheme",
+        parseGnomeColorScheme,
+        trace,
+        timeoutMs,
+    );
+    if (fromColorScheme) {
+        return fromColorScheme;
+    }
+
+    return readGSetting("org.gnome.desktop.interface", "gtk-theme", parseGtkThemeAppearance, trace, timeoutMs);
+}
+
+async function detectLinuxAppearance(
+    trace: DetectionTrace,
+    timeoutMs = DETECTION_TIMEOUT_MS,
+): Promise<Appearance | null> {
+    const desktop = getLinuxDesktop();
+
+    const fromDesktop = await detectLinuxDesktopAppearance(desktop, trace, timeoutMs);
+    if (fromDesktop) {
+        return fromDesktop;
+    }
+
+    const fromPortal = await detectPortalAppearance(trace, timeoutMs);
+    if (fromPortal) {
+        return fromPortal;
+    }
+
+    // Standalone window managers have no settings daemon; GTK's own config file is all there is.
+    if (desktop === "other") {
+        const fromGtkSettings = await detectGtkSettingsAppearance(trace);
+        if (fromGtkSettings) {
+            return fromGtkSettings;
+        }
+    }
+
+    return detectGnomeGSettingsAppearance(trace, timeoutMs);
+}
+
+async function detectWindowsAppearance(
+    trace: DetectionTrace,
+    timeoutMs = DETECTION_TIMEOUT_MS,
+): Promise<Appearance | null> {
+    const result = await runDetectionCommand(
+        trace,
+        "registry",
+        "reg",
+        ["query", "HKCU\\Software\\Microsoft\\Windows\\CurrentVersion\\Themes\\Personalize", "/v", "AppsUseLightTheme"],
+        timeoutMs,
+    );
+
+    result.step.appearance = result.ok ? parseWindowsAppsUseLightThemeValue(result.stdout) : null;
+    return result.step.appearance;
+}
+
+async function detectGnomeHighContrast(trace: DetectionTrace): Promise<boolean | null> {
+    const result = await runDetectionCommand(trace, "gsettings", "gsettings", [
+        "get",
+        "org.gnome.desktop.a11y.interface",
+        "high-contrast",
+    ]);
+
+    result.step.highContrast =
+        parseGnomeHighContrast(result.ok ? normalizeSettingValue(result.stdout) : null) ?? undefined;
+    return result.step.highContrast ?? null;
+}
+
+async function detectMacIncreaseContrast(trace: DetectionTrace): Promise<boolean | null> {
+    const result = await runDetectionCommand(trace, "defaults", "/usr/bin/defaults", [
+        "read",
+        "com.apple.universalaccess",
+        "increaseContrast",
+    ]);
+
+    if (result.ok) {
+        result.step.highContrast = parseMacIncreaseContrast(normalizeSettingValue(result.stdout)) ?? undefined;
+    } else if (result.stderr.toLowerCase().includes("does not exist")) {
+        result.step.highContrast = false;
+    }
+
+    return result.step.highContrast ?? null;
+}
+
+async function detectWindowsHighContrast(trace: DetectionTrace): Promise<boolean | null> {
+    const result = await runDetectionCommand(trace, "registry", "reg", [
+        "query",
+        "HKCU\\Control Panel\\Accessibility\\HighContrast",
+        "/v",
+        "Flags",
+    ]);
+
+    result.step.highContrast = result.ok ? (parseWindowsHighContrastFlags(result.stdout) ?? undefined) : undefined;
+    return result.step.highContrast ?? null;
+}
+
+function hasHighContrastThemes(config: Config): boolean {
+    return config.highContrastDarkTheme !== null || config.highContrastLightTheme !== null;
+}
+
+/**
+ * Reads the OS high-contrast preference. Skipped (reported as off) unless a high-contrast theme is
+ * configured, so users without the mappings pay for no extra commands.
+ */
+async function detectHighContrast(config: Config, trace: DetectionTrace): Promise<boolean> {
+    if (!hasHighContrastThemes(config)) {
+        return false;
+    }
+
+    switch (process.platform) {
+        case "darwin":
+            return (await detectMacIncreaseContrast(trace)) ?? false;
+        case "linux":
+            return (await detectGnomeHighContrast(trace)) ?? false;
+        case "win32":
+            return (await detectWindowsHighContrast(trace)) ?? false;
+        default:
+            return false;
+    }
+}
+
+type TerminalQuery = {
+    /** Callers still waiting; each gives up after `TERMINAL_QUERY_TIMEOUT_MS`. */
+    waiters: Set<(reply: string | null) => void>;
+};
+
+/**
+ * The OSC 11 query each session's terminal has not answered yet. Its input handler outlives the callers'
+ * timeout, so a slow reply is swallowed instead of landing in the editor, and no second query is sent
+ * until the first is answered or `TERMINAL_REPLY_GRACE_MS` has passed.
+ */
+const pendingTerminalQueries = new WeakMap<ExtensionContext["ui"], TerminalQuery>();
+
+function sendTerminalQuery(ui: ExtensionContext["ui"]): TerminalQuery {
+    const query: TerminalQuery = { waiters: new Set() };
+    let buffer = "";
+
+    const stop = () => {
+        clearTimeout(graceId);
+        unsubscribe();
+        if (pendingTerminalQueries.get(ui) === query) {
+            pendingTerminalQueries.delete(ui);
+        }
+    };
+
+    const unsubscribe = ui.onTerminalInput((data) => {
+        // Replies can arrive split across chunks, so start buffering at any OSC introducer.
+        const start = buffer.length === 0 ? data.indexOf("\u001b]") : 0;
+        if (start === -1) {
+            return undefined;
+        }
+
+        buffer += data.slice(start);
+        if (!buffer.startsWith(OSC_11_REPLY_PREFIX) && !OSC_11_REPLY_PREFIX.startsWith(buffer)) {
+            // Some other OSC sequence; let it through.
+            buffer = "";
+            return undefined;
+        }
+
+        const match = buffer.match(OSC_11_RESPONSE_PATTERN);
+        if (match) {
+            stop();
+            for (const waiter of query.waiters) {
+                waiter(match[1] ?? null);
+            }
+        }
+
+        return { consume: true };
+    });
+    const graceId = setTimeout(stop, TERMINAL_REPLY_GRACE_MS);
+    graceId.unref?.();
+
+    pendingTerminalQueries.set(ui, query);
+    process.stdout.write(OSC_11_QUERY);
+    return query;
+}
+
+function queryTerminalBackground(ctx: ExtensionContext): Promise<string | null> {
+    if (!ctx.hasUI || !process.stdout.isTTY) {
+        return Promise.resolve(null);
+    }
+
+    const query = pendingTerminalQueries.get(ctx.ui) ?? sendTerminalQuery(ctx.ui);
+
+    return new Promise((resolve) => {
+        const finish = (reply: string | null) => {
+            clearTimeout(timeoutId);
+            query.waiters.delete(finish);
+            resolve(reply);
+        };
+
+        const timeoutId = setTimeout(() => finish(null), TERMINAL_QUERY_TIMEOUT_MS);
+        query.waiters.add(finish);
+    });
+}
+
+async function detectTerminalAppearance(ctx: ExtensionContext, trace: DetectionTrace): Promise<Appearance | null> {
+    const reply = await queryTerminalBackground(ctx);
+    const fromReply = reply ? parseOsc11Appearance(reply) : null;
+    trace.push({
+        backend: "osc11",
+        exitStatus: reply ? "0" : "no reply",
+        output: reply ? JSON.stringify(reply) : undefined,
+        appearance: fromReply,
+    });
+
+    if (fromReply) {
+        return fromReply;
+    }
+
+    const fromColorFgBg = parseColorFgBgAppearance(process.env.COLORFGBG);
+    trace.push({ backend: "COLORFGBG", output: process.env.COLORFGBG ?? "(unset)", appearance: fromColorFgBg });
+    return fromColorFgBg;
+}
+
+function detectScheduleAppearance(config: Config, trace: DetectionTrace): Appearance | null {
+    if (!config.schedule) {
+        return null;
+    }
+
+    const appearance = getScheduleAppearance(config.schedule);
+    trace.push({ backend: "schedule", output: formatSchedule(config.schedule), appearance });
+    return appearance;
+}
+
+async function detectSystemAppearance(
+    trace: DetectionTrace,
+    timeoutMs = DETECTION_TIMEOUT_MS,
+): Promise<Appearance | null> {
+    switch (process.platform) {
+        case "darwin":
+            return detectMacAppearance(trace, timeoutMs);
+        case "linux":
+            return detectLinuxAppearance(trace, timeoutMs);
+        case "win32":
+            return detectWindowsAppearance(trace, timeoutMs);
+        default:
+            return null;
+    }
+}
+
+/** Expands a leading `~` and resolves relative paths against the session's working directory. */
+function resolveAppearanceFilePath(filePath: string, cwd: string): string {
+    const expanded =
+        filePath === "~" || filePath.startsWith("~/") ? path.join(os.homedir(), filePath.slice(1)) : filePath;
+    return path.resolve(cwd, expanded);
+}
+
+async function detectFileAppearance(
+    config: Config,
+    cwd: string,
+    trace: DetectionTrace,
+    now: Date = new Date(),
+): Promise<Appearance | null> {
+    if (!config.appearanceFile) {
+        return null;
+    }
+
+    const filePath = resolveAppearanceFilePath(config.appearanceFile, cwd);
+    const step: DetectionStep = { backend: "file", command: filePath, appearance: null };
+    trace.push(step);
+
+    try {
+        const { mtimeMs } = await stat(filePath);
+        const ageMs = now.getTime() - mtimeMs;
+        if (config.appearanceFileMaxAgeMs > 0 && ageMs > config.appearanceFileMaxAgeMs) {
+            step.exitStatus = "stale";
+            step.output = `modified ${Math.round(ageMs / 1000)}s ago`;
+            return null;
+        }
+
+        const content = await readFile(filePath, "utf8");
+        step.exitStatus = "0";
+        step.output = content.trim();
+        step.appearance = parseAppearanceFileContent(content);
+    } catch (error) {
+        step.exitStatus = getExitStatus(error);
+    }
+
+    return step.appearance;
+}
+
+async function detectCommandAppearance(
+    config: Config,
+    trace: DetectionTrace,
+    timeoutMs = DETECTION_TIMEOUT_MS,
+): Promise<Appearance | null> {
+    const [file, ...args] = config.detectCommand ?? [];
+    if (!file) {
+        return null;
+    }
+
+    const result = await runDetectionCommand(trace, "command", file, args, timeoutMs);
+    result.step.appearance = result.ok ? parseDetectCommandOutput(result.stdout) : null;
+    return result.step.appearance;
+}
+
+function detectAppearanceOverride(trace: DetectionTrace): Appearance | null {
+    const value = process.env[APPEARANCE_OVERRIDE_ENV];
+    if (value === undefined) {
+        return null;
+    }
+
+    const normalized = value.trim().toLowerCase();
+    const appearance = normalized === "dark" || normalized === "light" ? normalized : null;
+    trace.push({ backend: APPEARANCE_OVERRIDE_ENV, output: value, appearance });
+    return appearance;
+}
+
+/** The winning appearance and the detectors that reported it, in priority order. */
+type DetectionResult = {
+    appearance: Appearance;
+    /** Several names under the `majority` policy; `["fallback"]` when `fallbackAppearance` applied. */
+    detectedBy: string[];
+};
+
+type DetectorRun = {
+    ctx: ExtensionContext;
+    config: Config;
+    trace: DetectionTrace;
+    timeoutMs: number;
+    detectSystem: (trace: DetectionTrace, timeoutMs: number) => Promise<Appearance | null>;
+};
+
+type Detector = {
+    /** Detectors for other platforms are skipped, so one `detectors` list can serve a mixed fleet. */
+    platforms?: readonly NodeJS.Platform[];
+    detect: (run: DetectorRun) => Promise<Appearance | null> | Appearance | null;
+};
+
+const DETECTORS: Record<DetectorName, Detector> = {
+    env: { detect: ({ trace }) => detectAppearanceOverride(trace) },
+    file: { detect: ({ ctx, config, trace }) => detectFileAppearance(config, ctx.cwd, trace) },
+    command: { detect: ({ config, trace, timeoutMs }) => detectCommandAppearance(config, trace, timeoutMs) },
+    system: { detect: ({ trace, timeoutMs, detectSystem }) => detectSystem(trace, timeoutMs) },
+    terminal: { detect: ({ ctx, trace }) => detectTerminalAppearance(ctx, trace) },
+    schedule: { detect: ({ config, trace }) => detectScheduleAppearance(config, trace) },
+    plist: { platforms: ["darwin"], detect: ({ trace }) => detectMacPlistAppearance(trace) },
+    defaults: {
+        platforms: ["darwin"],
+        detect: ({ trace, timeoutMs }) => detectMacDefaultsAppearance(trace, timeoutMs),
+    },
+    registry: { platforms: ["win32"], detect: ({ trace, timeoutMs }) => detectWindowsAppearance(trace, timeoutMs) },
+    kde: { platforms: ["linux"], detect: ({ trace }) => detectKdeAppearance(trace) },
+    dconf: { platforms: ["linux"], detect: ({ trace }) => detectDconfAppearance(trace) },
+    portal: { platforms: ["linux"], detect: ({ trace, timeoutMs }) => detectPortalAppearance(trace, timeoutMs) },
+    gsettings: { platforms: ["linux"], detect: ({ trace, timeoutMs }) => detectGSettingsAppearance(trace, timeoutMs) },
+    xfconf: { platforms: ["linux"], detect: ({ trace, timeoutMs }) => detectXfceAppearance(trace, timeoutMs) },
+    "gtk-settings": { platforms: ["linux"], detect: ({ trace }) => detectGtkSettingsAppearance(trace) },
+};
+
+/** Detectors the Linux change monitors cover; anything else in the chain needs the poll loop. */
+const MONITORED_DETECTORS: readonly DetectorName[] = ["system", "kde", "dconf", "portal", "gsettings", "xfconf"];
+
+/** The configured chain, or the one `source` implies: overrides first, then the source, then the schedule. */
+function getDetectorChain(config: Config): DetectorSpec[] {
+    if (config.detectors) {
+        return config.detectors;
+    }
+
+    const names: DetectorName[] =
+        config.source === "schedule"
+            ? ["env", "file", "command", "schedule"]
+            : ["env", "file", "command", config.source, "schedule"];
+    return names.map((name) => ({ name }));
+}
+
+/** Whether a detector can answer at all: overrides and the schedule are inert until configured. */
+function isDetectorActive(name: DetectorName, config: Config): boolean {
+    switch (name) {
+        case "env":
+            return process.env[APPEARANCE_OVERRIDE_ENV] !== undefined;
+        case "file":
+            return config.appearanceFile !== null;
+        case "command":
+            return config.detectCommand !== null;
+        case "schedule":
+            return config.schedule !== null;
+        default:
+            return DETECTORS[name].platforms?.includes(process.platform) ?? true;
+    }
+}
+
+/** `env` counts wherever the chain lists it, or whether it does at all, since it is checked before the chain. */
+function getActiveDetectors(config: Config): DetectorName[] {
+    const chain = getDetectorChain(config)
+        .map((detector) => detector.name)
+        .filter((name) => name !== "env");
+    return (["env", ...chain] as DetectorName[]).filter((name) => isDetectorActive(name, config));
+}
+
+async function runDetector(spec: DetectorSpec, run: Omit<DetectorRun, "timeoutMs">): Promise<Appearance | null> {
+    const detector = DETECTORS[spec.name];
+    if (detector.platforms && !detector.platforms.includes(process.platform)) {
+        return null;
+    }
+
+    const detection = Promise.resolve(detector.detect({ ...run, timeoutMs: spec.timeoutMs ?? DETECTION_TIMEOUT_MS }));
+    const { timeoutMs } = spec;
+    if (timeoutMs === undefined) {
+        return detection;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<null>((resolve) => {
+        timer = setTimeout(() => {
+            run.trace.push({ backend: spec.name, exitStatus: `timeout (${timeoutMs} ms)`, appearance: null });
+            resolve(null);
+        }, timeoutMs);
+    });
+
+    try {
+        return await Promise.race([detection, timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/** Ties go to the answer of the highest-priority detector, which is the first vote cast. */
+function pickMajority(votes: Array<{ detector: DetectorName; appearance: Appearance }>): DetectionResult | null {
+    const first = votes[0];
+    if (!first) {
+        return null;
+    }
+
+    const darkVotes = votes.filter((vote) => vote.appearance === "dark").length;
+    const lightVotes = votes.length - darkVotes;
+    const appearance = darkVotes === lightVotes ? first.appearance : darkVotes > lightVotes ? "dark" : "light";
+
+    return {
+        appearance,
+        detectedBy: votes.filter((vote) => vote.appearance === appearance).map((vote) => vote.detector),
+    };
+}
+
+/**
+ * Runs the detector chain under `detectorPolicy`, falling back to `fallbackAppearance`.
+ * `detectSystem` replaces the OS backends, so sessions sharing one detector can read the leader's
+ * published result instead of spawning their own commands.
+ */
+async function detectAppearance(
+    ctx: ExtensionContext,
+    config: Config,
+    trace: DetectionTrace = [],
+    detectSystem: (trace: DetectionTrace, timeoutMs: number) => Promise<Appearance | null> = detectSystemAppearance,
+): Promise<DetectionResult | null> {
+    // PI_SYSTEM_APPEARANCE pins the result for CI and screenshots, so no chain or vote can override it.
+    const pinned = detectAppearanceOverride(trace);
+    if (pinned) {
+        return { appearance: pinned, detectedBy: ["env"] };
+    }
+
+    const votes: Array<{ detector: DetectorName; appearance: Appearance }> = [];
+
+    for (const spec of getDetectorChain(config)) {
+        if (spec.name === "env") {
+            continue;
+        }
+
+        const appearance = await runDetector(spec, { ctx, config, trace, detectSystem });
+        if (!appearance) {
+            continue;
+        }
+
+        if (config.detectorPolicy === "first") {
+            return { appearance, detectedBy: [spec.name] };
+        }
+
+        votes.push({ detector: spec.name, appearance });
+    }
+
+    const fromVotes = pickMajority(votes);
+    if (fromVotes) {
+        return fromVotes;
+    }
+
+    if (config.fallbackAppearance) {
+        trace.push({ backend: "fallback", appearance: config.fallbackAppearance });
+        return { appearance: config.fallbackAppearance, detectedBy: ["fallback"] };
+    }
+
+    return null;
+}
+
+type LockOwner = {
+    pid: number;
+    /** Distinguishes sessions that share a process. */
+    token: string;
+};
+
+type SharedState = {
+    appearance: Appearance;
+    pid: number;
+    at: string;
+};
+
+/** Only configs whose detection ends at the OS backends can share them; the rest is per-session. */
+function canShareDetection(config: Config): boolean {
+    const active = getActiveDetectors(config);
+    return (
+        config.shareDetection &&
+        active.includes("system") &&
+        active.every((name) => name === "system" || name === "schedule")
+    );
+}
+
+function isProcessAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        // EPERM: the process exists but belongs to someone else.
+        return (error as { code?: string })?.code === "EPERM";
+    }
+}
+
+function readLockOwner(): LockOwner | null {
+    try {
+        const parsed = JSON.parse(readFileSync(SHARED_LOCK_PATH, "utf8")) as unknown;
+        if (isObject(parsed) && typeof parsed.pid === "number" && typeof parsed.token === "string") {
+            return { pid: parsed.pid, token: parsed.token };
+        }
+    } catch {
+        // Missing or half-written lock.
+    }
+
+    return null;
+}
+
+/**
+ * Creates the lock file exclusively. A lock whose owner process has died is removed and the creation
+ * retried once. A lock that does not parse may be one another session has just created but not yet
+ * written, so it is only removed once it is older than `UNREADABLE_LOCK_GRACE_MS`. Synchronous because
+ * the file is tiny and `restartPolling` is synchronous.
+ */
+function tryAcquireLock(token: string): boolean {
+    for (let attempt = 0; attempt < 2; attempt += 1) {
+        try {
+            mkdirSync(path.dirname(SHARED_LOCK_PATH), { recursive: true });
+            writeFileSync(SHARED_LOCK_PATH, JSON.stringify({ pid: process.pid, token }), { flag: "wx" });
+            return true;
+        } catch (error) {
+            if ((error as { code?: string })?.code !== "EEXIST") {
+                return false;
+            }
+
+            const owner = readLockOwner();
+            if (owner ? isProcessAlive(owner.pid) : !isAbandonedLock()) {
+                return false;
+            }
+
+            // Re-check right before removing, so a lock another session just took over is left alone.
+            if (readLockOwner()?.token === owner?.token) {
+                rmSync(SHARED_LOCK_PATH, { force: true });
+            }
+        }
+    }
+
+    return false;
+}
+
+/** An unreadable lock that has stayed unreadable past the grace period, e.g. after a crash mid-write. */
+function isAbandonedLock(now: number = Date.now()): boolean {
+    try {
+        return now - statSync(SHARED_LOCK_PATH).mtimeMs > UNREADABLE_LOCK_GRACE_MS;
+    } catch {
+        // Already gone: nothing left to protect.
+        return true;
+    }
+}
+
+function releaseLock(token: string): void {
+    if (readLockOwner()?.token === token) {
+        rmSync(SHARED_LOCK_PATH, { force: true });
+    }
+}
+
+/** Writes via a temp file and rename, so followers never read a half-written state. Rejects on failure. */
+async function writeSharedState(appearance: Appearance): Promise<void> {
+    const state: SharedState = { appearance, pid: process.pid, at: new Date().toISOString() };
+    const tempPath = `${SHARED_STATE_PATH}.${process.pid}.tmp`;
+
+    await mkdir(path.dirname(SHARED_STATE_PATH), { recursive: true });
+    await writeFile(tempPath, `${JSON.stringify(state)}\n`, "utf8");
+    await rename(tempPath, SHARED_STATE_PATH);
+}
+
+async function readSharedAppearance(trace: DetectionTrace): Promise<Appearance | null> {
+    const step: DetectionStep = { backend: "shared", command: SHARED_STATE_PATH, appearance: null };
+    trace.push(step);
+
+    try {
+        const parsed = JSON.parse(await readFile(SHARED_STATE_PATH, "utf8")) as unknown;
+        step.exitStatus = "0";
+
+        if (isObject(parsed) && (parsed.appearance === "dark" || parsed.appearance === "light")) {
+            step.output = `${parsed.appearance} from pid ${String(parsed.pid)} at ${String(parsed.at)}`;
+            step.appearance = parsed.appearance;
+        }
+    } catch (error) {
+        step.exitStatus = getExitStatus(error);
+    }
+
+    return step.appearance;
+}
+
+/** A persisted pause of auto-sync. `until: null` lasts while the pausing session runs. */
+type PauseState = {
+    until: string | null;
+    pid: number;
+    session: string;
+};
+
+/** Parses durations such as `90s`, `30m`, `1h` or `1h30m`. */
+function parseDuration(text: string): number | undefined {
+    if (!/^(\d+[smhd])+$/.test(text)) {
+        return undefined;
+    }
+
+    let total = 0;
+    for (const [, amount, unit] of text.matchAll(/(\d+)([smhd])/g)) {
+        total += Number(amount) * (DURATION_UNIT_MS[unit ?? ""] ?? 0);
+    }
+
+    return total > 0 ? total : undefined;
+}
+
+/**
+ * The pause in effect, or null when there is none, it expired, or its session's process is gone.
+ * Synchronous like `readLockOwner`: every sync checks it, and the file is tiny or missing.
+ */
+function readPause(now: number = Date.now()): PauseState | null {
+    try {
+        const parsed = JSON.parse(readFileSync(PAUSE_PATH, "utf8")) as unknown;
+        if (!isObject(parsed) || typeof parsed.pid !== "number" || typeof parsed.session !== "string") {
+            return null;
+        }
+
+        const pause: PauseState = { until: null, pid: parsed.pid, session: parsed.session };
+        if (typeof parsed.until === "string") {
+            return Date.parse(parsed.until) > now ? { ...pause, until: parsed.until } : null;
+        }
+
+        return parsed.until === null && isProcessAlive(parsed.pid) ? pause : null;
+    } catch {
+        return null;
+    }
+}
+
+/** Written like the shared state, so other sessions never read a half-written pause. */
+async function writePause(pause: PauseState): Promise<void> {
+    const tempPath = `${PAUSE_PATH}.${process.pid}.tmp`;
+
+    await mkdir(path.dirname(PAUSE_PATH), { recursive: true });
+    await writeFile(tempPath, `${JSON.stringify(pause)}\n`, "utf8");
+    await rename(tempPath, PAUSE_PATH);
+}
+
+/** Removes the pause; with `session`, only a pause that session set until its end. */
+async function clearPause(session?: string): Promise<void> {
+    if (session !== undefined) {
+        const pause = readPause();
+        if (pause?.session !== session || pause.until !== null) {
+            return;
+        }
+    }
+
+    await rm(PAUSE_PATH, { force: true });
+}
+
+function describePause(pause: PauseState | null): string {
+    if (!pause) {
+        return "off";
+    }
+
+    return pause.until
+        ? `until ${new Date(pause.until).toLocaleString()} (set by pid ${pause.pid})`
+        : `until the session of pid ${pause.pid} ends`;
+}
+
+type DebugLogEntry =
+    | { event: "detection"; appearance: Appearance | null; detectedBy: string[]; steps: DetectionTrace }
+    | {
+          event: "switch";
+          appearance: Appearance;
+          from: string | undefined;
+          to: string;
+          detectedBy: string[];
+          forced: boolean;
+      }
+    | { event: "failure"; kind: "setTheme" | "hook" | "config" | "shared-state"; message: string };
+
+/** A parsed log line: the entry plus when and by which Pi process it was written. */
+type DebugLogRecord = DebugLogEntry & { time: string; pid: number };
+
+function formatDebugLogLine(entry: DebugLogEntry, now: Date = new Date()): string {
+    const record: DebugLogRecord = { time: now.toISOString(), pid: process.pid, ...entry };
+    return `${JSON.stringify(record)}\n`;
+}
+
+/** Appends one line, first moving a full log aside to `ROTATED_DEBUG_LOG_PATH`. */
+async function appendDebugLogLine(line: string): Promise<void> {
+    await mkdir(path.dirname(DEBUG_LOG_PATH), { recursive: true });
+
+    try {
+        const { size } = await stat(DEBUG_LOG_PATH);
+        if (size + Buffer.byteLength(line) > DEBUG_LOG_MAX_BYTES) {
+            await rename(DEBUG_LOG_PATH, ROTATED_DEBUG_LOG_PATH);
+        }
+    } catch {
+        // No log yet.
+    }
+
+    await appendFile(DEBUG_LOG_PATH, line, "utf8");
+}
+
+/** Reads both log files, oldest first; lines that do not parse are skipped. */
+async function readDebugLog(): Promise<DebugLogRecord[]> {
+    const records: DebugLogRecord[] = [];
+
+    for (const filePath of [ROTATED_DEBUG_LOG_PATH, DEBUG_LOG_PATH]) {
+        let content: string;
+        try {
+            content = await readFile(filePath, "utf8");
+        } catch {
+            continue;
+        }
+
+        for (const line of content.split("\n")) {
+            try {
+                const parsed = JSON.parse(line) as unknown;
+                if (isObject(parsed) && typeof parsed.event === "string" && typeof parsed.time === "string") {
+                    records.push(parsed as DebugLogRecord);
+                }
+            } catch {
+                // Empty or truncated line.
+            }
+        }
+    }
+
+    return records;
+}
+
+function formatSwitchRecord(record: Extract<DebugLogRecord, { event: "switch" }>): string {
+    const origin = record.forced ? "forced" : `from ${record.detectedBy.join(", ") || "unknown"}`;
+    return `${new Date(record.time).toLocaleString()}  ${record.from ?? "unknown"} -> ${record.to} (${record.appearance}, ${origin})`;
+}
+
+/** Runs all hooks in parallel and returns one message per failed hook. Never throws. */
+async function runSwitchHooks(hooks: SwitchHook[], appearance: Appearance, theme: string): Promise<string[]> {
+    const env = { ...process.env, PI_APPEARANCE: appearance, PI_THEME: theme };
+
+    const results = await Promise.all(
+        hooks.map(async ({ command: [file = "", ...args], timeoutMs }) => {
+            try {
+                await execFileAsync(file, args, { env, timeout: timeoutMs, windowsHide: true });
+                return null;
+            } catch (error) {
+                const detail = extractStderr(error).trim() || (error instanceof Error ? error.message : String(error));
+                return `${formatCommandLine(file, args)} (exit ${getExitStatus(error)}): ${detail}`;
+            }
+        }),
+    );
+
+    return results.filter((failure): failure is string => failure !== null);
+}
+
+async function promptTheme(
+    ctx: ExtensionCommandContext,
+    label: string,
+    currentValue: string,
+): Promise<string | undefined> {
+    const next = await ctx.ui.input(label, currentValue);
+    if (next === undefined) {
+        return undefined;
+    }
+
+    const trimmed = next.trim();
+    return trimmed.length > 0 ? trimmed : currentValue;
+}
+
+function restoreTheme(ctx: ExtensionContext, theme: ExtensionContext["ui"]["theme"]): void {
+    if (ctx.ui.theme !== theme) {
+        ctx.ui.setTheme(theme);
+    }
+}
+
+/**
+ * Lets the user pick from the installed themes, previewing each highlighted one with `setTheme`.
+ * "Enter a name..." falls back to free text. Cancelling restores the theme that was active before.
+ * Passing `noneLabel` adds an entry that clears an optional mapping; choosing it (or `null` as
+ * `currentValue`) resolves to `null`.
+ */
+async function pickTheme(
+    ctx: ExtensionCommandContext,
+    label: string,
+    currentValue: string | null,
+    noneLabel?: string,
+): Promise<string | null | undefined> {
+    const themeBeforePicker = ctx.ui.theme;
+    const installed = ctx.ui.getAllThemes().map((theme) => theme.name);
+    const currentItem = currentValue ?? NO_THEME_ITEM;
+
+    const items: SelectItem[] = installed.map((name) => ({
+        value: name,
+        label: name === currentValue ? `${name} (current)` : name,
+    }));
+
+    if (currentValue !== null && !installed.includes(currentValue)) {
+        items.unshift({ value: currentValue, label: `${currentValue} (current)`, description: "not installed" });
+    }
+
+    if (noneLabel !== undefined) {
+        items.unshift({ value: NO_THEME_ITEM, label: currentValue === null ? `${noneLabel} (current)` : noneLabel });
+    }
+
+    items.push({ value: CUSTOM_THEME_ITEM, label: "Enter a name...", description: "type any theme name" });
+
+    const preview = (name: string) => {
+        if (name !== CUSTOM_THEME_ITEM && name !== NO_THEME_ITEM && ctx.ui.theme.name !== name) {
+            ctx.ui.setTheme(name);
+        }
+    };
+
+    const choice = await ctx.ui.custom<string | undefined>((tui, theme, _keybindings, done) => {
+        const container = new Container();
+        container.addChild(new Text(theme.fg("accent", theme.bold(label))));
+
+        const selectList = new SelectList(items, Math.min(items.length, MAX_PICKER_ROWS), {
+            selectedPrefix: (text) => theme.fg("accent", text),
+            selectedText: (text) => theme.fg("accent", text),
+            description: (text) => theme.fg("muted", text),
+            scrollInfo: (text) => theme.fg("dim", text),
+            noMatch: (text) => theme.fg("warning", text),
+        });
+
+        selectList.setSelectedIndex(
+            Math.max(
+                0,
+                items.findIndex((item) => item.value === currentItem),
+            ),
+        );
+        selectList.onSelectionChange = (item) => {
+            preview(item.value);
+            tui.requestRender();
+        };
+        selectList.onSelect = (item) => done(item.value);
+        selectList.onCancel = () => done(undefined);
+
+        container.addChild(selectList);
+        container.addChild(new Text(theme.fg("dim", "↑↓ preview • enter select • esc cancel")));
+
+        return {
+            render: (width: number) => container.render(width),
+            invalidate: () => container.invalidate(),
+            handleInput: (data: string) => {
+                selectList.handleInput(data);
+                tui.requestRender();
+            },
+        };
+    });
+
+    if (choice === undefined) {
+        restoreTheme(ctx, themeBeforePicker);
+        return undefined;
+    }
+
+    if (choice === NO_THEME_ITEM) {
+        restoreTheme(ctx, themeBeforePicker);
+        return null;
+    }
+
+    if (choice === CUSTOM_THEME_ITEM) {
+        restoreTheme(ctx, themeBeforePicker);
+        const typed = await promptTheme(ctx, label, currentValue ?? "");
+        return typed === "" ? currentValue : typed;
+    }
+
+    preview(choice);
+    return choice;
+}
+
+async function promptWholeNumber(
+    ctx: ExtensionCommandContext,
+    label: string,
+    currentValue: number,
+    minimum: number,
+    maximum = Number.MAX_SAFE_INTEGER,
+): Promise<number | undefined> {
+    while (true) {
+        const next = await ctx.ui.input(label, String(currentValue));
+        if (next === undefined) {
+            return undefined;
+        }
+
+        const trimmed = next.trim();
+        if (trimmed.length === 0) {
+            return currentValue;
+        }
+
+        const parsed = Number.parseInt(trimmed, 10);
+        if (Number.isFinite(parsed) && parsed >= minimum && parsed <= maximum) {
+            return parsed;
+        }
+
+        const range = maximum === Number.MAX_SAFE_INTEGER ? `>= ${minimum}` : `between ${minimum} and ${maximum}`;
+        ctx.ui.notify(`Enter a whole number ${range}.`, "warning");
+    }
+}
+
+async function promptSource(
+    ctx: ExtensionCommandContext,
+    currentValue: AppearanceSource,
+): Promise<AppearanceSource | undefined> {
+    const labels: Record<AppearanceSource, string> = {
+        system: "system (OS appearance setting)",
+        terminal: "terminal (background colour via OSC 11 / COLORFGBG)",
+        schedule: "schedule (time of day only)",
+    };
+
+    const choice = await ctx.ui.select(
+        `Appearance source (current: ${currentValue})`,
+        APPEARANCE_SOURCES.map((source) => labels[source]),
+    );
+
+    return APPEARANCE_SOURCES.find((source) => labels[source] === choice);
+}
+
+async function promptManualOverride(
+    ctx: ExtensionCommandContext,
+    currentValue: ManualOverridePolicy,
+): Promise<ManualOverridePolicy | undefined> {
+    const labels: Record<ManualOverridePolicy, string> = {
+        respect: "respect (keep it until the system appearance changes)",
+        enforce: "enforce (switch back on the next sync)",
+        ask: "ask (prompt each time)",
+    };
+
+    const choice = await ctx.ui.select(
+        `When the theme is changed by hand (current: ${currentValue})`,
+        MANUAL_OVERRIDE_POLICIES.map((policy) => labels[policy]),
+    );
+
+    return MANUAL_OVERRIDE_POLICIES.find((policy) => labels[policy] === choice);
+}
+
+/** Accepts `HH:MM-HH:MM` (light start, dark start), `latitude,longitude`, or `off`. */
+function parseScheduleInput(value: string): ScheduleConfig | null | undefined {
+    const trimmed = value.trim();
+    if (trimmed.toLowerCase() === "off") {
+        return null;
+    }
+
+    const times = trimmed.split("-").map((part) => part.trim());
+    if (times.length === 2) {
+        return toSchedule({ lightAt: times[0], darkAt: times[1] }) ?? undefined;
+    }
+
+    const coordinates = trimmed.split(",").map((part) => Number.parseFloat(part.trim()));
+    if (coordinates.length === 2) {
+        return toSchedule({ latitude: coordinates[0], longitude: coordinates[1] }) ?? undefined;
+    }
+
+    return undefined;
+}
+
+async function promptDetectCommand(
+    ctx: ExtensionCommandContext,
+    currentValue: string[] | null,
+): Promise<string[] | null | undefined> {
+    const next = await ctx.ui.input(
+        "Detect command (for example: darkman get, or off)",
+        formatDetectCommand(currentValue),
+    );
+    if (next === undefined) {
+        return undefined;
+    }
+
+    const trimmed = next.trim();
+    if (trimmed.length === 0) {
+        return currentValue;
+    }
+
+    return trimmed.toLowerCase() === "off" ? null : (toDetectCommand(trimmed) ?? currentValue);
+}
+
+async function promptAppearanceFile(
+    ctx: ExtensionCommandContext,
+    currentValue: string | null,
+): Promise<string | null | undefined> {
+    const next = await ctx.ui.input("Appearance file (path, or off)", currentValue ?? "off");
+    if (next === undefined) {
+        return undefined;
+    }
+
+    const trimmed = next.trim();
+    if (trimmed.length === 0) {
+        return currentValue;
+    }
+
+    return trimmed.toLowerCase() === "off" ? null : trimmed;
+}
+
+async function promptSchedule(
+    ctx: ExtensionCommandContext,
+    currentValue: ScheduleConfig | null,
+): Promise<ScheduleConfig | null | undefined> {
+    const currentInput =
+        currentValue?.latitude !== undefined
+            ? `${currentValue.latitude},${currentValue.longitude}`
+            : currentValue
+              ? `${currentValue.lightAt}-${currentValue.darkAt}`
+              : "off";
+
+    while (true) {
+        const next = await ctx.ui.input("Schedule (07:00-19:00, latitude,longitude, or off)", currentInput);
+        if (next === undefined) {
+            return undefined;
+        }
+
+        if (next.trim().length === 0) {
+            return currentValue;
+        }
+
+        const parsed = parseScheduleInput(next);
+        if (parsed !== undefined) {
+            return parsed;
+        }
+
+        ctx.ui.notify("Enter HH:MM-HH:MM, latitude,longitude, or off.", "warning");
+    }
+}
+
+type SubcommandName = "dark" | "light" | "toggle" | "pause" | "auto" | "reset" | "status" | "history" | "help";
+
+const SUBCOMMANDS: ReadonlyArray<{ name: SubcommandName; description: string }> = [
+    { name: "dark", description: "Force dark appearance for this session" },
+    { name: "light", description: "Force light appearance for this session" },
+    { name: "toggle", description: "Switch to the other appearance for this session" },
+    {
+        name: "pause",
+        description: "Pause auto-sync in all sessions for a duration (30m, 1h) or until this session ends",
+    },
+    { name: "auto", description: "Resume syncing with the detected appearance, ending a pause" },
+    { name: "reset", description: "Delete saved theme overrides and restore the original theme" },
+    { name: "status", description: "Show detection diagnostics and sync state" },
+    { name: "history", description: "Show the last N theme switches from the debug log (default 10)" },
+    { name: "help", description: "Show usage" },
+];
+
+function getHelpText(): string {
+    const lines = SUBCOMMANDS.map(({ name, description }) => `  /system-theme ${name.padEnd(7)} ${description}`);
+    return ["Usage:", "  /system-theme         Open settings", ...lines].join("\n");
+}
+
+function oppositeAppearance(appearance: Appearance): Appearance {
+    return appearance === "dark" ? "light" : "dark";
+}
+
+/** The config key that maps `appearance`, preferring the high-contrast mapping when one is set. */
+function getThemeKey(config: Config, appearance: Appearance, highContrast = false): ThemeKey {
+    if (highContrast) {
+        const key = appearance === "dark" ? "highContrastDarkTheme" : "highContrastLightTheme";
+        if (config[key] !== null) {
+            return key;
+        }
+    }
+
+    return appearance === "dark" ? "darkTheme" : "lightTheme";
+}
+
+function getTargetTheme(config: Config, appearance: Appearance, highContrast = false): string {
+    const key = getThemeKey(config, appearance, highContrast);
+    return config[key] ?? (appearance === "dark" ? config.darkTheme : config.lightTheme);
+}
+
+function getEditDistance(left: string, right: string): number {
+    let previous = Array.from({ length: right.length + 1 }, (_, index) => index);
+
+    for (let row = 1; row <= left.length; row += 1) {
+        const current = [row];
+        for (let column = 1; column <= right.length; column += 1) {
+            const substitution = left[row - 1] === right[column - 1] ? 0 : 1;
+            current[column] = Math.min(
+                (previous[column] ?? 0) + 1,
+                (current[column - 1] ?? 0) + 1,
+                (previous[column - 1] ?? 0) + substitution,
+            );
+        }
+        previous = current;
+    }
+
+    return previous[right.length] ?? 0;
+}
+
+/** Installed theme names close to `name`, ignoring case and `-`/`_`/space separators. */
+function suggestThemeNames(name: string, installed: string[]): string[] {
+    const normalize = (value: string) => value.toLowerCase().replace(/[-_\s]+/g, "");
+    const target = normalize(name);
+    const maxDistance = Math.max(2, Math.floor(target.length / 3));
+
+    return installed
+        .map((candidate) => ({
+            candidate,
+            distance: Math.min(
+                getEditDistance(normalize(candidate), target),
+                getEditDistance(candidate.toLowerCase(), name.toLowerCase()),
+            ),
+        }))
+        .filter(({ distance }) => distance <= maxDistance)
+        .sort((left, right) => left.distance - right.distance || left.candidate.localeCompare(right.candidate))
+        .slice(0, MAX_THEME_SUGGESTIONS)
+        .map(({ candidate }) => candidate);
+}
+
+type UnknownThemeMapping = {
+    key: ThemeKey;
+    appearance: Appearance;
+    name: string;
+    suggestions: string[];
+};
+
+const THEME_MAPPINGS: ReadonlyArray<{ key: ThemeKey; appearance: Appearance }> = [
+    { key: "darkTheme", appearance: "dark" },
+    { key: "lightTheme", appearance: "light" },
+    { key: "highContrastDarkTheme", appearance: "dark" },
+    { key: "highContrastLightTheme", appearance: "light" },
+];
+
+function findUnknownThemeMappings(config: Config, installed: string[]): UnknownThemeMapping[] {
+    return THEME_MAPPINGS.flatMap(({ key, appearance }) => {
+        const name = config[key];
+        if (name === null || installed.includes(name)) {
+            return [];
+        }
+
+        return [{ key, appearance, name, suggestions: suggestThemeNames(name, installed) }];
+    });
+}
+
+/** Doubles the poll interval per consecutive detection failure, capped at `maxBackoffMs`. */
+function getBackoffPollMs(config: Config, consecutiveFailures: number): number {
+    const cap = Math.max(config.pollMs, config.maxBackoffMs);
+    return Math.min(cap, config.pollMs * 2 ** Math.min(consecutiveFailures, 30));
+}
+
+function canManageThemes(ctx: ExtensionContext): boolean {
+    if (!ctx.hasUI) {
+        return false;
+    }
+
+    return ctx.ui.getAllThemes().length > 0;
+}
+
+function notifyInfoIfUI(ctx: ExtensionContext, message: string): void {
+    if (!ctx.hasUI) {
+        return;
+    }
+
+    ctx.ui.notify(message, "info");
+}
+
+function hasThemeOverrides(config: Config): boolean {
+    return (
+        config.darkTheme !== DEFAULT_CONFIG.darkTheme ||
+        config.lightTheme !== DEFAULT_CONFIG.lightTheme ||
+        hasHighContrastThemes(config)
+    );
+}
+
+function isDefaultThemeName(themeName: string | undefined): boolean {
+    return themeName === DEFAULT_CONFIG.darkTheme || themeName === DEFAULT_CONFIG.lightTheme;
+}
+
+function shouldAutoSync(ctx: ExtensionContext, config: Config): boolean {
+    if (!canManageThemes(ctx)) {
+        return false;
+    }
+
+    if (hasThemeOverrides(config)) {
+        return true;
+    }
+
+    return isDefaultThemeName(ctx.ui.theme.name);
+}
+
+export default function systemThemeExtension(pi: ExtensionAPI): void {
+    let loadedConfig: LoadedConfig = mergeConfigLayers({ global: {}, project: {}, env: {} });
+    let activeConfig: Config = loadedConfig.config;
+    let intervalId: ReturnType<typeof setInterval> | null = null;
+    let intervalMs: number | null = null;
+    let monitorProcess: ChildProcess | null = null;
+    let appearanceFileWatcher: FSWatcher | null = null;
+    /** Identifies this session in the shared detection lock. */
+    const sessionToken = randomUUID();
+    let isDetectionLeader = false;
+    let sharedStateWatcher: FSWatcher | null = null;
+    let lastPublishedAppearance: Appearance | null = null;
+    /** Publishes in order; shutdown waits for it before giving up the lock. */
+    let sharedStateWrite: Promise<void> = Promise.resolve();
+    /** Appends debug log lines in order; shutdown waits for it too. */
+    let debugLogWrite: Promise<void> = Promise.resolve();
+    /** The last logged detection outcome; polls that repeat it are not logged, so switches stay in the log longer. */
+    let lastLoggedDetection: string | null = null;
+    let configWatchers: FSWatcher[] = [];
+    let configReloadTimer: ReturnType<typeof setTimeout> | null = null;
+    let lastConfigReport = "";
+    let syncInProgress = false;
+    /** Set while the settings menu is open, so a poll cannot replace a theme being previewed. */
+    let settingsMenuOpen = false;
+    let syncRequestedDuringSync = false;
+    let lastSetThemeError: string | null = null;
+    let didWarnDefaultThemeFallback = false;
+    /** The pause seen by the last sync, so its end is announced once. */
+    let activePause: PauseState | null = null;
+    let pauseTimer: ReturnType<typeof setTimeout> | null = null;
+    /** Session-only appearance set by `/system-theme dark|light|toggle`; cleared by `auto`. */
+    let forcedAppearance: Appearance | null = null;
+    let lastAppearance: Appearance | null = null;
+    /** The theme this extension last applied or found already active; any other theme was picked by hand. */
+    let lastAppliedTheme: string | undefined;
+    /** A hand-picked theme being kept; syncing resumes once the appearance differs from `appearance`. */
+    let manualOverride: { theme: string | undefined; appearance: Appearance } | null = null;
+    /** The theme that was active before this extension switched it for the first time. */
+    let themeBeforeFirstSwitch: string | undefined;
+    /** Hysteresis: the appearance seen in the latest detections and how many times in a row. */
+    let candidateAppearance: Appearance | null = null;
+    let candidateCount = 0;
+    /** Re-checks a held-back change when nothing polls, since monitors report a change only once. */
+    let confirmationTimer: ReturnType<typeof setTimeout> | null = null;
+    let consecutiveFailures = 0;
+    let lastDetection: { at: Date; trace: DetectionTrace; detection: DetectionResult | null } | null = null;
+    /** Detectors behind the last applied appearance; empty while an appearance is forced. */
+    let lastDetectedBy: string[] = [];
+    let lastSetThemeFailure: { at: Date; theme: string; message: string } | null = null;
+    let lastSwitch: { at: Date; theme: string } | null = null;
+    let lastHookFailures: string[] = [];
+    /** Built-in themes used in place of uninstalled mappings when `fallbackToBuiltinThemes` is on. */
+    let themeSubstitutes: Partial<Record<ThemeKey, string>> = {};
+    /** The OS high-contrast preference from the last detection. */
+    let highContrast = false;
+
+    /** Queues an entry for the debug log when `debug` is on; the timestamp is taken now, not at write time. */
+    function logDebug(entry: DebugLogEntry): void {
+        if (!activeConfig.debug) {
+            return;
+        }
+
+        const line = formatDebugLogLine(entry);
+        debugLogWrite = debugLogWrite
+            .then(() => appendDebugLogLine(line))
+            .catch(() => {
+                // A log that cannot be written must not break theme syncing.
+            });
+    }
+
+    function resolveTargetTheme(appearance: Appearance): string {
+        const key = getThemeKey(activeConfig, appearance, highContrast);
+        return themeSubstitutes[key] ?? getTargetTheme(activeConfig, appearance, highContrast);
+    }
+
+    /** Checks darkTheme/lightTheme against the installed themes and warns with close matches. */
+    function validateThemeMappings(ctx: ExtensionContext): void {
+        themeSubstitutes = {};
+
+        if (!canManageThemes(ctx)) {
+            return;
+        }
+
+        const installed = ctx.ui.getAllThemes().map((theme) => theme.name);
+        const unknown = findUnknownThemeMappings(activeConfig, installed);
+        if (unknown.length === 0) {
+            return;
+        }
+
+        const lines = unknown.map(({ key, appearance, name, suggestions }) => {
+            const hint =
+                suggestions.length > 0 ? ` Did you mean ${suggestions.map((item) => `"${item}"`).join(", ")}?` : "";
+
+            const builtin = getTargetTheme(DEFAULT_CONFIG, appearance);
+            if (activeConfig.fallbackToBuiltinThemes && installed.includes(builtin)) {
+                themeSubstitutes[key] = builtin;
+                return `${key} "${name}" is not installed; using "${builtin}".${hint}`;
+            }
+
+            return `${key} "${name}" is not installed.${hint}`;
+        });
+
+        ctx.ui.notify(lines.join("\n"), "warning");
+    }
+
+    function maybeNotifyDefaultThemeFallback(ctx: ExtensionContext): void {
+        if (didWarnDefaultThemeFallback || !canManageThemes(ctx) || hasThemeOverrides(activeConfig)) {
+            return;
+        }
+
+        const currentTheme = ctx.ui.theme.name;
+        if (isDefaultThemeName(currentTheme)) {
+            return;
+        }
+
+        const displayTheme = currentTheme ?? "unknown";
+
+        didWarnDefaultThemeFallback = true;
+        ctx.ui.notify(
+            `Current theme "${displayTheme}" is custom. Skipping default dark/light auto-sync. Configure /system-theme to enable syncing.`,
+            "info",
+        );
+    }
+
+    /** Applies `appearance` and announces it on `pi.events` when the appearance or theme changed. */
+    function applyAppearance(ctx: ExtensionContext, appearance: Appearance, detectedBy: string[] = []): boolean {
+        const previousAppearance = lastAppearance;
+        const previousTheme = ctx.ui.theme.name;
+        const applied = switchTheme(ctx, appearance);
+        lastDetectedBy = detectedBy;
+
+        const theme = ctx.ui.theme.name;
+        if (applied && theme !== undefined && theme !== previousTheme) {
+            logDebug({
+                event: "switch",
+                appearance,
+                from: previousTheme,
+                to: theme,
+                detectedBy,
+                forced: forcedAppearance !== null,
+            });
+        }
+
+        if (appearance !== previousAppearance || theme !== previousTheme) {
+            const event: AppearanceChangeEvent = {
+                previousAppearance,
+                appearance,
+                previousTheme,
+                theme,
+                highContrast,
+                detectedBy,
+            };
+            pi.events.emit(APPEARANCE_EVENT, event);
+        }
+
+        // Hooks follow real theme switches only; polls that confirm the current theme do not rerun them.
+        if (applied && theme !== undefined && theme !== previousTheme && activeConfig.onSwitch.length > 0) {
+            void notifyHookFailures(ctx, runSwitchHooks(activeConfig.onSwitch, appearance, theme));
+        }
+
+        return applied;
+    }
+
+    async function notifyHookFailures(ctx: ExtensionContext, pending: Promise<string[]>): Promise<void> {
+        const failures = await pending;
+        lastHookFailures = failures;
+        for (const message of failures) {
+            logDebug({ event: "failure", kind: "hook", message });
+        }
+        if (failures.length > 0 && ctx.hasUI) {
+            ctx.ui.notify(`onSwitch hook failed:\n${failures.join("\n")}`, "warning");
+        }
+    }
+
+    function switchTheme(ctx: ExtensionContext, appearance: Appearance): boolean {
+        lastAppearance = appearance;
+
+        const targetTheme = resolveTargetTheme(appearance);
+        const previousTheme = ctx.ui.theme.name;
+        if (previousTheme === targetTheme) {
+            lastAppliedTheme = targetTheme;
+            return true;
+        }
+
+        const result = ctx.ui.setTheme(targetTheme);
+        if (result.success) {
+            lastAppliedTheme = targetTheme;
+            lastSetThemeError = null;
+            lastSwitch = { at: new Date(), theme: targetTheme };
+            themeBeforeFirstSwitch ??= previousTheme;
+            return true;
+        }
+
+        const message = result.error ?? "unknown error";
+        lastSetThemeFailure = { at: new Date(), theme: targetTheme, message };
+        const errorKey = `${targetTheme}:${message}`;
+        if (errorKey !== lastSetThemeError) {
+            lastSetThemeError = errorKey;
+            logDebug({
+                event: "failure",
+                kind: "setTheme",
+                message: `Failed to set theme "${targetTheme}": ${message}`,
+            });
+        }
+
+        return false;
+    }
+
+    /**
+     * Decides whether a theme the user picked since the last switch should stay, following `manualOverride`.
+     * A kept theme stays until the wanted appearance differs from the one it replaced.
+     */
+    async function keepManualTheme(ctx: ExtensionContext, appearance: Appearance): Promise<boolean> {
+        if (manualOverride) {
+            if (appearance === manualOverride.appearance) {
+                return true;
+            }
+
+            manualOverride = null;
+            return false;
+        }
+
+        const currentTheme = ctx.ui.theme.name;
+        if (
+            activeConfig.manualOverride === "enforce" ||
+            lastAppliedTheme === undefined ||
+            currentTheme === lastAppliedTheme ||
+            // The appearance changed as well, so this switch is due anyway.
+            appearance !== lastAppearance
+        ) {
+            return false;
+        }
+
+        const targetTheme = resolveTargetTheme(appearance);
+        if (currentTheme === targetTheme) {
+            lastAppliedTheme = targetTheme;
+            return false;
+        }
+
+        const displayTheme = currentTheme ?? "unknown";
+        if (activeConfig.manualOverride === "ask") {
+            const keepOption = `Keep "${displayTheme}" until the system appearance changes`;
+            const revertOption = `Switch back to "${targetTheme}"`;
+            const choice = await ctx.ui.select(`The theme was changed to "${displayTheme}"`, [
+                keepOption,
+                revertOption,
+            ]);
+            if (choice === revertOption) {
+                return false;
+            }
+        } else {
+            ctx.ui.notify(
+                `Theme "${displayTheme}" was picked by hand; keeping it until the system appearance changes. Use /system-theme auto to resume syncing now.`,
+                "info",
+            );
+        }
+
+        manualOverride = { theme: currentTheme, appearance };
+        return true;
+    }
+
+    function clearPauseTimer(): void {
+        if (pauseTimer !== null) {
+            clearTimeout(pauseTimer);
+            pauseTimer = null;
+        }
+    }
+
+    /** Re-syncs when a timed pause runs out, even for sessions that only sync on monitor events. */
+    function schedulePauseExpiry(ctx: ExtensionContext): void {
+        clearPauseTimer();
+
+        if (activePause?.until) {
+            const delay = Math.min(Math.max(Date.parse(activePause.until) - Date.now(), 0), MAX_TIMER_DELAY_MS);
+            pauseTimer = setTimeout(() => {
+                pauseTimer = null;
+                void syncTheme(ctx);
+            }, delay);
+        }
+    }
+
+    /** Re-reads the persisted pause, which any session may have set or lifted, and reports whether it holds. */
+    function refreshPause(ctx: ExtensionContext): boolean {
+        const pause = readPause();
+        const ended = activePause !== null && pause === null;
+        activePause = pause;
+        schedulePauseExpiry(ctx);
+
+        if (ended) {
+            // Themes picked by hand during the pause do not count as overrides afterwards.
+            manualOverride = null;
+            lastAppliedTheme = undefined;
+        }
+
+        if (ended && ctx.hasUI) {
+            ctx.ui.notify("The system-theme pause ended. Resumed syncing with the system appearance.", "info");
+        }
+
+        return pause !== null;
+    }
+
+    async function syncTheme(ctx: ExtensionContext): Promise<void> {
+        if (settingsMenuOpen) {
+            return;
+        }
+
+        if (!shouldAutoSync(ctx, activeConfig)) {
+            // This session stops detecting, so hand publishing over to the sessions that still follow.
+            releaseDetectionLeadership();
+            return;
+        }
+
+        if (syncInProgress) {
+            // A monitor event arrived mid-detection; re-check once the current pass finishes.
+            syncRequestedDuringSync = true;
+            return;
+        }
+
+        syncInProgress = true;
+
+        try {
+            if (refreshPause(ctx)) {
+                return;
+            }
+
+            if (forcedAppearance) {
+                if (!(await keepManualTheme(ctx, forcedAppearance))) {
+                    applyAppearance(ctx, forcedAppearance);
+                }
+                return;
+            }
+
+            const trace: DetectionTrace = [];
+            const detection = await detectAppearance(ctx, activeConfig, trace, detectSharedSystemAppearance);
+            lastDetection = { at: new Date(), trace, detection };
+            const detectionKey = detection ? `${detection.appearance}:${detection.detectedBy.join(",")}` : "failed";
+            if (detectionKey !== lastLoggedDetection) {
+                lastLoggedDetection = detectionKey;
+                logDebug({
+                    event: "detection",
+                    appearance: detection?.appearance ?? null,
+                    detectedBy: detection?.detectedBy ?? [],
+                    steps: trace,
+                });
+            }
+
+            // A fallback answer still means every detector failed, so keep backing off while it applies.
+            const failed = !detection || detection.detectedBy.includes("fallback");
+            consecutiveFailures = failed ? consecutiveFailures + 1 : 0;
+            adjustPollInterval(ctx);
+
+            if (!detection) {
+                return;
+            }
+
+            const { appearance, detectedBy } = detection;
+
+            highContrast = await detectHighContrast(activeConfig, trace);
+
+            if (appearance === candidateAppearance) {
+                candidateCount += 1;
+            } else {
+                candidateAppearance = appearance;
+                candidateCount = 1;
+            }
+
+            // The first detection applies right away; later flips must repeat `stablePolls` times.
+            const isTransition = lastAppearance !== null && appearance !== lastAppearance;
+            if (isTransition && candidateCount < activeConfig.stablePolls) {
+                scheduleConfirmation(ctx);
+                return;
+            }
+
+            if (await keepManualTheme(ctx, appearance)) {
+                return;
+            }
+
+            applyAppearance(ctx, appearance, detectedBy);
+        } finally {
+            syncInProgress = false;
+
+            if (syncRequestedDuringSync) {
+                syncRequestedDuringSync = false;
+                void syncTheme(ctx);
+            }
+        }
+    }
+
+    /** With a monitor instead of polling, detects again after `pollMs` until `stablePolls` is reached. */
+    function scheduleConfirmation(ctx: ExtensionContext): void {
+        if (intervalId !== null || confirmationTimer !== null) {
+            return;
+        }
+
+        confirmationTimer = setTimeout(() => {
+            confirmationTimer = null;
+            void syncTheme(ctx);
+        }, activeConfig.pollMs);
+    }
+
+    function stopWatching(): void {
+        if (confirmationTimer !== null) {
+            clearTimeout(confirmationTimer);
+            confirmationTimer = null;
+        }
+
+        if (intervalId !== null) {
+            clearInterval(intervalId);
+            intervalId = null;
+            intervalMs = null;
+        }
+
+        if (monitorProcess) {
+            const child = monitorProcess;
+            monitorProcess = null;
+            child.kill();
+        }
+
+        if (appearanceFileWatcher) {
+            appearanceFileWatcher.close();
+            appearanceFileWatcher = null;
+        }
+
+        if (sharedStateWatcher) {
+            sharedStateWatcher.close();
+            sharedStateWatcher = null;
+        }
+    }
+
+    /**
+     * The leader runs the OS backends and publishes each new result; followers read the published one
+     * and only detect on their own while nothing has been published yet.
+     */
+    async function detectSharedSystemAppearance(trace: DetectionTrace, timeoutMs: number): Promise<Appearance | null> {
+        if (!canShareDetection(activeConfig)) {
+            return detectSystemAppearance(trace, timeoutMs);
+        }
+
+        // Elect on the first detection too, so a lone session never trusts a state file left by a dead leader.
+        isDetectionLeader ||= tryAcquireLock(sessionToken);
+        if (isDetectionLeader) {
+            const appearance = await detectSystemAppearance(trace, timeoutMs);
+            if (appearance && appearance !== lastPublishedAppearance) {
+                lastPublishedAppearance = appearance;
+                sharedStateWrite = sharedStateWrite
+                    .then(() => writeSharedState(appearance))
+                    .catch((error: unknown) => {
+                        const message = error instanceof Error ? error.message : String(error);
+                        logDebug({
+                            event: "failure",
+                            kind: "shared-state",
+                            message: `Failed to publish the shared appearance: ${message}`,
+                        });
+                    });
+            }
+            return appearance;
+        }
+
+        return (await readSharedAppearance(trace)) ?? detectSystemAppearance(trace, timeoutMs);
+    }
+
+    /** Becomes the leader when the lock is free or its owner died; returns whether that happened. */
+    function maybeTakeOverDetection(ctx: ExtensionContext): boolean {
+        if (
+            isDetectionLeader ||
+            forcedAppearance ||
+            !shouldAutoSync(ctx, activeConfig) ||
+            !canShareDetection(activeConfig) ||
+            !tryAcquireLock(sessionToken)
+        ) {
+            return false;
+        }
+
+        isDetectionLeader = true;
+        restartPolling(ctx);
+        return true;
+    }
+
+    function releaseDetectionLeadership(): void {
+        if (isDetectionLeader) {
+            releaseLock(sessionToken);
+            isDetectionLeader = false;
+            lastPublishedAppearance = null;
+        }
+    }
+
+    /** Followers re-sync when the leader publishes and try to take over as soon as the lock is released. */
+    function startSharedStateWatch(ctx: ExtensionContext): void {
+        const stateFile = path.basename(SHARED_STATE_PATH);
+        const lockFile = path.basename(SHARED_LOCK_PATH);
+
+        try {
+            const watcher = watch(path.dirname(SHARED_STATE_PATH), (_eventType, changedFile) => {
+                if ((!changedFile || changedFile === lockFile) && maybeTakeOverDetection(ctx)) {
+                    void syncTheme(ctx);
+                    return;
+                }
+
+                if (!changedFile || changedFile === stateFile) {
+                    void syncTheme(ctx);
+                }
+            });
+            watcher.on("error", () => {
+                watcher.close();
+                if (sharedStateWatcher === watcher) {
+                    sharedStateWatcher = null;
+                }
+            });
+            sharedStateWatcher = watcher;
+        } catch {
+            // No watch support: the poll loop still reads the state and checks the leader.
+        }
+    }
+
+    function startPolling(ctx: ExtensionContext): void {
+        intervalMs = getBackoffPollMs(activeConfig, consecutiveFailures);
+        intervalId = setInterval(() => {
+            maybeTakeOverDetection(ctx);
+            void syncTheme(ctx);
+        }, intervalMs);
+    }
+
+    /** Re-arms the poll timer when the backoff interval changed since it was started. */
+    function adjustPollInterval(ctx: ExtensionContext): void {
+        if (intervalId === null || intervalMs === getBackoffPollMs(activeConfig, consecutiveFailures)) {
+            return;
+        }
+
+        clearInterval(intervalId);
+        startPolling(ctx);
+    }
+
+    function startMonitor(ctx: ExtensionContext, monitor: AppearanceMonitor): boolean {
+        let child: ChildProcess;
+        try {
+            child = spawn(monitor.command, monitor.args, {
+                stdio: ["ignore", "pipe", "ignore"],
+                windowsHide: true,
+            });
+        } catch {
+            return false;
+        }
+
+        monitorProcess = child;
+
+        const fallBackToPolling = () => {
+            if (monitorProcess !== child) {
+                return;
+            }
+
+            monitorProcess = null;
+            if (shouldAutoSync(ctx, activeConfig) && intervalId === null) {
+                startPolling(ctx);
+            }
+        };
+
+        child.once("error", fallBackToPolling);
+        child.once("exit", fallBackToPolling);
+
+        if (child.stdout) {
+            createInterface({ input: child.stdout }).on("line", (line) => {
+                if (monitorProcess === child && monitor.isRelevantLine(line)) {
+                    void syncTheme(ctx);
+                }
+            });
+        }
+
+        return true;
+    }
+
+    /**
+     * Re-syncs as soon as the appearance file changes. Its directory is watched so that files replaced
+     * by rename are followed; polling still runs, since synced mounts may not deliver events at all.
+     */
+    function startAppearanceFileWatch(ctx: ExtensionContext): void {
+        if (!activeConfig.appearanceFile) {
+            return;
+        }
+
+        const filePath = resolveAppearanceFilePath(activeConfig.appearanceFile, ctx.cwd);
+        const fileName = path.basename(filePath);
+
+        try {
+            const watcher = watch(path.dirname(filePath), (_eventType, changedFile) => {
+                if (!changedFile || changedFile === fileName) {
+                    void syncTheme(ctx);
+                }
+            });
+            watcher.on("error", () => {
+                watcher.close();
+                if (appearanceFileWatcher === watcher) {
+                    appearanceFileWatcher = null;
+                }
+            });
+            appearanceFileWatcher = watcher;
+        } catch {
+            // Missing directory or no watch support: polling picks up changes.
+        }
+    }
+
+    function restartPolling(ctx: ExtensionContext): void {
+        stopWatching();
+
+        if (!shouldAutoSync(ctx, activeConfig)) {
+            releaseDetectionLeadership();
+            return;
+        }
+
+        startAppearanceFileWatch(ctx);
+
+        // A forced session never detects, so it must not hold the lock the other sessions wait on.
+        if (forcedAppearance || !canShareDetection(activeConfig)) {
+            releaseDetectionLeadership();
+        } else {
+            isDetectionLeader ||= tryAcquireLock(sessionToken);
+            if (!isDetectionLeader) {
+                // Follower: reading the state file and checking the leader's pid are cheap, so keep polling.
+                startSharedStateWatch(ctx);
+                startPolling(ctx);
+                return;
+            }
+        }
+
+        const monitor = getAppearanceMonitor(activeConfig);
+        if (monitor && startMonitor(ctx, monitor)) {
+            return;
+        }
+
+        startPolling(ctx);
+    }
 
-    const trimmed = next.trim();
-    return trimmed.length > 0 ? trimmed : currentValue;
-}
+    /** Re-reads the config files; a malformed file keeps the previous config instead of resetting it. */
+    async function reloadConfigFromDisk(ctx: ExtensionContext): Promise<void> {
+        const diagnostics: ConfigDiagnostics = { errors: [], warnings: [] };
+        const next = await loadConfig(ctx.cwd, diagnostics);
+        if (diagnostics.errors.length > 0) {
+            for (const message of diagnostics.errors) {
+                logDebug({ event: "failure", kind: "config", message });
+            }
+            if (ctx.hasUI) {
+                ctx.ui.notify(`Keeping the previous system-theme config.\n${diagnostics.errors.join("\n")}`, "warning");
+            }
+            return;
+        }
 
-async function promptPollMs(ctx: ExtensionCommandContext, currentValue: number): Promise<number | undefined> {
-    while (true) {
-        const next = await ctx.ui.input("Poll interval (ms)", String(currentValue));
-        if (next === undefined) {
-            return undefined;
+        reportConfigDiagnostics(ctx, diagnostics);
+
+        const previousConfig = activeConfig;
+        loadedConfig = next;
+        activeConfig = next.config;
+        if (isSameConfigValue(previousConfig, activeConfig)) {
+            return;
         }
 
-        const trimmed = next.trim();
-        if (trimmed.length === 0) {
-            return currentValue;
+        // Like `reset`: once the theme overrides are gone, a theme this extension applied is not the
+        // user's custom choice, so hand back the original before the defaults decide whether to sync.
+        const droppedOverrides = hasThemeOverrides(previousConfig) && !hasThemeOverrides(activeConfig);
+        if (
+            droppedOverrides &&
+            canManageThemes(ctx) &&
+            themeBeforeFirstSwitch !== undefined &&
+            ctx.ui.theme.name === lastSwitch?.theme
+        ) {
+            ctx.ui.setTheme(themeBeforeFirstSwitch);
+            themeBeforeFirstSwitch = undefined;
+            lastAppliedTheme = undefined;
         }
 
-        const parsed = Number.parseInt(trimmed, 10);
-        if (Number.isFinite(parsed) && parsed >= MIN_POLL_MS) {
-            return parsed;
+        validateThemeMappings(ctx);
+        await syncTheme(ctx);
+        restartPolling(ctx);
+    }
+
+    function stopConfigWatch(): void {
+        if (configReloadTimer !== null) {
+            clearTimeout(configReloadTimer);
+            configReloadTimer = null;
         }
 
-        ctx.ui.notify(`Enter a whole number >= ${MIN_POLL_MS}.`, "warning");
+        for (const watcher of configWatchers) {
+            watcher.close();
+        }
+        configWatchers = [];
     }
-}
 
-function canManageThemes(ctx: ExtensionContext): boolean {
-    if (!ctx.hasUI) {
-        return false;
+    /**
+     * Watches the directories holding the global and project config files, so replacing or deleting a
+     * file is noticed as well as editing it in place. Directories that do not exist yet are skipped.
+     */
+    function startConfigWatch(ctx: ExtensionContext): void {
+        stopConfigWatch();
+
+        const scheduleReload = () => {
+            if (configReloadTimer !== null) {
+                clearTimeout(configReloadTimer);
+            }
+
+            configReloadTimer = setTimeout(() => {
+                configReloadTimer = null;
+                void reloadConfigFromDisk(ctx);
+            }, CONFIG_RELOAD_DEBOUNCE_MS);
+        };
+
+        for (const filePath of [GLOBAL_CONFIG_PATH, getProjectConfigPath(ctx.cwd)]) {
+            const fileName = path.basename(filePath);
+
+            try {
+                const watcher = watch(path.dirname(filePath), (_eventType, changedFile) => {
+                    if (!changedFile || changedFile === fileName) {
+                        scheduleReload();
+                    } else if (filePath === GLOBAL_CONFIG_PATH && changedFile === path.basename(PAUSE_PATH)) {
+                        // Another session paused or resumed.
+                        void syncTheme(ctx);
+                    }
+                });
+                watcher.on("error", () => {
+                    watcher.close();
+                    configWatchers = configWatchers.filter((entry) => entry !== watcher);
+                });
+                configWatchers.push(watcher);
+            } catch {
+                // Missing directory or no watch support: changes are picked up on the next session.
+            }
+        }
     }
 
-    return ctx.ui.getAllThemes().length > 0;
-}
+    async function reloadConfig(cwd: string): Promise<ConfigDiagnostics> {
+        const diagnostics: ConfigDiagnostics = { errors: [], warnings: [] };
+        loadedConfig = await loadConfig(cwd, diagnostics);
+        activeConfig = loadedConfig.config;
+        return diagnostics;
+    }
 
-function notifyInfoIfUI(ctx: ExtensionContext, message: string): void {
-    if (!ctx.hasUI) {
-        return;
+    /** Shows config problems in the UI, once per distinct set so hot reloads do not repeat them. */
+    function reportConfigDiagnostics(ctx: ExtensionContext, diagnostics: ConfigDiagnostics): void {
+        const lines = [...diagnostics.errors, ...diagnostics.warnings];
+        const report = lines.join("\n");
+        if (report === lastConfigReport) {
+            return;
+        }
+
+        lastConfigReport = report;
+        for (const message of lines) {
+            logDebug({ event: "failure", kind: "config", message });
+        }
+        if (lines.length > 0 && ctx.hasUI) {
+            ctx.ui.notify(`pi-system-theme config problems:\n${report}`, "warning");
+        }
     }
 
-    ctx.ui.notify(message, "info");
-}
+    async function openSettingsMenu(ctx: ExtensionCommandContext): Promise<void> {
+        settingsMenuOpen = true;
+        try {
+            await runSettingsMenu(ctx);
+        } finally {
+            settingsMenuOpen = false;
+        }
+    }
 
-function hasThemeOverrides(config: Config): boolean {
-    return config.darkTheme !== DEFAULT_CONFIG.darkTheme || config.lightTheme !== DEFAULT_CONFIG.lightTheme;
-}
+    async function runSettingsMenu(ctx: ExtensionCommandContext): Promise<void> {
+        const draft: Config = { ...activeConfig };
+        // Theme pickers preview with setTheme; leaving the menu must put this exact theme back.
+        const themeBeforeMenu = ctx.ui.theme;
+        const overrideBeforeMenu = manualOverride;
+        let saveLayer: WritableConfigLayer = "global";
 
-function isDefaultThemeName(themeName: string | undefined): boolean {
-    return themeName === DEFAULT_CONFIG.darkTheme || themeName === DEFAULT_CONFIG.lightTheme;
-}
+        // Unedited values keep showing the layer they came from; edited ones show "edited".
+        const describeSource = (key: keyof Config) =>
+            isSameConfigValue(draft[key], activeConfig[key]) ? loadedConfig.sources[key] : "edited";
 
-function shouldAutoSync(ctx: ExtensionContext, config: Config): boolean {
-    if (!canManageThemes(ctx)) {
-        return false;
+        while (true) {
+            const darkOption = `Dark theme: ${draft.darkTheme} (${describeSource("darkTheme")})`;
+            const lightOption = `Light theme: ${draft.lightTheme} (${describeSource("lightTheme")})`;
+            const highContrastDarkOption = `High-contrast dark theme: ${draft.highContrastDarkTheme ?? "none"} (${describeSource("highContrastDarkTheme")})`;
+            const highContrastLightOption = `High-contrast light theme: ${draft.highContrastLightTheme ?? "none"} (${describeSource("highContrastLightTheme")})`;
+            const pollOption = `Poll interval (ms): ${draft.pollMs} (${describeSource("pollMs")})`;
+            const sourceOption = `Appearance source: ${draft.source} (${describeSource("source")})`;
+            const scheduleOption = `Schedule: ${formatSchedule(draft.schedule)} (${describeSource("schedule")})`;
+            const detectCommandOption = `Detect command: ${formatDetectCommand(draft.detectCommand)} (${describeSource("detectCommand")})`;
+            const appearanceFileOption = `Appearance file: ${draft.appearanceFile ?? "off"} (${describeSource("appearanceFile")})`;
+            const appearanceFileMaxAgeOption = `Appearance file max age (ms): ${draft.appearanceFileMaxAgeMs || "no limit"} (${describeSource("appearanceFileMaxAgeMs")})`;
+            const stablePollsOption = `Stable polls: ${draft.stablePolls} (${describeSource("stablePolls")})`;
+            const backoffOption = `Max failure backoff (ms): ${draft.maxBackoffMs} (${describeSource("maxBackoffMs")})`;
+            const fallbackOption = `Fallback to built-in themes if missing: ${draft.fallbackToBuiltinThemes ? "on" : "off"} (${describeSource("fallbackToBuiltinThemes")})`;
+            const shareDetectionOption = `Share detection across sessions: ${draft.shareDetection ? "on" : "off"} (${describeSource("shareDetection")})`;
+            const manualOverrideOption = `When the theme is changed by hand: ${draft.manualOverride} (${describeSource("manualOverride")})`;
+            const debugOption = `Debug log: ${draft.debug ? "on" : "off"} (${describeSource("debug")})`;
+            const saveLayerOption = `Save to: ${saveLayer} (${getConfigLayerPath(saveLayer, ctx.cwd)})`;
+            const saveOption = "Save and apply";
+            const cancelOption = "Cancel";
+
+            const choice = await ctx.ui.select("pi-system-theme", [
+                darkOption,
+                lightOption,
+                highContrastDarkOption,
+                highContrastLightOption,
+                pollOption,
+                sourceOption,
+                scheduleOption,
+                detectCommandOption,
+                appearanceFileOption,
+                appearanceFileMaxAgeOption,
+                stablePollsOption,
+                backoffOption,
+                fallbackOption,
+                shareDetectionOption,
+                manualOverrideOption,
+                debugOption,
+                saveLayerOption,
+                saveOption,
+                cancelOption,
+            ]);
+
+            if (choice === undefined || choice === cancelOption) {
+                restoreTheme(ctx, themeBeforeMenu);
+                // Drop anything a preview was taken for; a theme kept from before the menu stays kept.
+                manualOverride = overrideBeforeMenu;
+                return;
+            }
+
+            if (choice === darkOption) {
+                const next = await pickTheme(ctx, "Dark theme", draft.darkTheme);
+                if (next) {
+                    draft.darkTheme = next;
+                }
+                continue;
+            }
+
+            if (choice === lightOption) {
+                const next = await pickTheme(ctx, "Light theme", draft.lightTheme);
+                if (next) {
+                    draft.lightTheme = next;
+                }
+                continue;
+            }
+
+            if (choice === highContrastDarkOption) {
+                const next = await pickTheme(
+                    ctx,
+                    "High-contrast dark theme",
+                    draft.highContrastDarkTheme,
+                    "None (use dark theme)",
+                );
+                if (next !== undefined) {
+                    draft.highContrastDarkTheme = next;
+                }
+                continue;
+            }
+
+            if (choice === highContrastLightOption) {
+                const next = await pickTheme(
+                    ctx,
+                    "High-contrast light theme",
+                    draft.highContrastLightTheme,
+                    "None (use light theme)",
+                );
+                if (next !== undefined) {
+                    draft.highContrastLightTheme = next;
+                }
+                continue;
+            }
+
+            if (choice === pollOption) {
+                const next = await promptWholeNumber(ctx, "Poll interval (ms)", draft.pollMs, MIN_POLL_MS);
+                if (next !== undefined) {
+                    draft.pollMs = next;
+                }
+                continue;
+            }
+
+            if (choice === sourceOption) {
+                const next = await promptSource(ctx, draft.source);
+                if (next !== undefined) {
+                    draft.source = next;
+                }
+                continue;
+            }
+
+            if (choice === detectCommandOption) {
+                const next = await promptDetectCommand(ctx, draft.detectCommand);
+                if (next !== undefined) {
+                    draft.detectCommand = next;
+                }
+                continue;
+            }
+
+            if (choice === appearanceFileOption) {
+                const next = await promptAppearanceFile(ctx, draft.appearanceFile);
+                if (next !== undefined) {
+                    draft.appearanceFile = next;
+                }
+                continue;
+            }
+
+            if (choice === appearanceFileMaxAgeOption) {
+                const next = await promptWholeNumber(
+                    ctx,
+                    "Appearance file max age (ms, 0 = no limit)",
+                    draft.appearanceFileMaxAgeMs,
+                    0,
+                );
+                if (next !== undefined) {
+                    draft.appearanceFileMaxAgeMs = next;
+                }
+                continue;
+            }
+
+            if (choice === scheduleOption) {
+                const next = await promptSchedule(ctx, draft.schedule);
+                if (next !== undefined) {
+                    draft.schedule = next;
+                }
+                continue;
+            }
+
+            if (choice === stablePollsOption) {
+                const next = await promptWholeNumber(
+                    ctx,
+                    "Consecutive identical detections before switching",
+                    draft.stablePolls,
+                    1,
+                    MAX_STABLE_POLLS,
+                );
+                if (next !== undefined) {
+                    draft.stablePolls = next;
+                }
+                continue;
+            }
+
+            if (choice === backoffOption) {
+                const next = await promptWholeNumber(
+                    ctx,
+                    "Max poll interval while detection fails (ms)",
+                    draft.maxBackoffMs,
+                    MIN_POLL_MS,
+                );
+                if (next !== undefined) {
+                    draft.maxBackoffMs = next;
+                }
+                continue;
+            }
+
+            if (choice === fallbackOption) {
+                draft.fallbackToBuiltinThemes = !draft.fallbackToBuiltinThemes;
+                continue;
+            }
+
+            if (choice === shareDetectionOption) {
+                draft.shareDetection = !draft.shareDetection;
+                continue;
+            }
+
+            if (choice === manualOverrideOption) {
+                const next = await promptManualOverride(ctx, draft.manualOverride);
+                if (next !== undefined) {
+                    draft.manualOverride = next;
+                }
+                continue;
+            }
+
+            if (choice === debugOption) {
+                draft.debug = !draft.debug;
+                continue;
+            }
+
+            if (choice === saveLayerOption) {
+                saveLayer = saveLayer === "global" ? "project" : "global";
+                continue;
+            }
+
+            if (choice === saveOption) {
+                restoreTheme(ctx, themeBeforeMenu);
+                // Previews are over; the sync below applies the saved themes.
+                settingsMenuOpen = false;
+
+                try {
+                    const result = await saveConfig(draft, saveLayer, ctx.cwd, loadedConfig);
+                    if (result.wroteFile) {
+                        ctx.ui.notify(`Saved ${result.overrideCount} override(s) to ${result.filePath}.`, "info");
+                    } else {
+                        ctx.ui.notify(`No overrides left in ${result.filePath}.`, "info");
+                    }
+
+                    await reloadConfig(ctx.cwd);
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error);
+                    ctx.ui.notify(`Failed to save config: ${message}`, "error");
+                    return;
+                }
+
+                validateThemeMappings(ctx);
+
+                const shadowed = CONFIG_KEYS.filter((key) => !isSameConfigValue(draft[key], activeConfig[key]));
+                if (shadowed.length > 0) {
+                    const details = shadowed.map((key) => `${key} (${loadedConfig.sources[key]})`).join(", ");
+                    ctx.ui.notify(`Saved, but a higher-precedence layer still overrides: ${details}.`, "warning");
+                }
+
+                // Saving is an explicit choice of themes, so it ends any hand-picked override.
+                manualOverride = null;
+                await syncTheme(ctx);
+                restartPolling(ctx);
+                maybeNotifyDefaultThemeFallback(ctx);
+                return;
+            }
+        }
     }
 
-    if (hasThemeOverrides(config)) {
-        return true;
+    function describeAutoSync(ctx: ExtensionContext): string {
+        if (!canManageThemes(ctx)) {
+            return "inactive: no interactive theme support";
+        }
+
+        if (manualOverride) {
+            return `keeping hand-picked theme "${manualOverride.theme ?? "unknown"}" until the appearance changes from ${manualOverride.appearance} (/system-theme auto resumes syncing)`;
+        }
+
+        if (forcedAppearance) {
+            return `forced ${forcedAppearance} for this session (/system-theme auto resumes syncing)`;
+        }
+
+        if (!shouldAutoSync(ctx, activeConfig)) {
+            return `inactive: current theme "${ctx.ui.theme.name ?? "unknown"}" is custom and darkTheme/lightTheme are defaults`;
+        }
+
+        return "active";
     }
 
-    return isDefaultThemeName(ctx.ui.theme.name);
-}
+    function describeWatchMode(): string {
+        if (monitorProcess) {
+            return `monitor (${formatCommandLine(monitorProcess.spawnfile, monitorProcess.spawnargs.slice(1))})`;
+        }
 
-export default function systemThemeExtension(pi: ExtensionAPI): void {
-    let activeConfig: Config = { ...DEFAULT_CONFIG };
-    let intervalId: ReturnType<typeof setInterval> | null = null;
-    let syncInProgress = false;
-    let lastSetThemeError: string | null = null;
-    let didWarnDefaultThemeFallback = false;
+        if (intervalId !== null && intervalMs !== null) {
+            const backoff =
+                consecutiveFailures > 0 ? `, backed off after ${consecutiveFailures} failed detection(s)` : "";
+            return `polling every ${intervalMs} ms${backoff}`;
+        }
 
-    function maybeNotifyDefaultThemeFallback(ctx: ExtensionContext): void {
-        if (didWarnDefaultThemeFallback || !canManageThemes(ctx) || hasThemeOverrides(activeConfig)) {
-            return;
+        return "stopped";
+    }
+
+    function describeSharedDetection(): string {
+        if (!canShareDetection(activeConfig)) {
+            return "off";
         }
 
-        const currentTheme = ctx.ui.theme.name;
-        if (isDefaultThemeName(currentTheme)) {
-            return;
+        if (isDetectionLeader) {
+            return `leader (pid ${process.pid})`;
         }
 
-        const displayTheme = currentTheme ?? "unknown";
+        const owner = readLockOwner();
+        return owner ? `following pid ${owner.pid}` : "no leader yet";
+    }
 
-        didWarnDefaultThemeFallback = true;
+    async function showStatus(ctx: ExtensionCommandContext): Promise<void> {
+        // Detect afresh so the report reflects the current state even when auto-sync is inactive.
+        const trace: DetectionTrace = [];
+        const detection = await detectAppearance(ctx, activeConfig, trace);
+        const contrast = await detectHighContrast(activeConfig, trace);
+        const describeDetection = (result: DetectionResult | null) =>
+            result ? `${result.appearance} (from ${result.detectedBy.join(", ")})` : "unknown";
+
+        const formatTime = (date: Date) => date.toLocaleString();
+        const lines = [
+            `Platform: ${process.platform === "linux" ? `linux (desktop: ${getLinuxDesktop()})` : process.platform}`,
+            `Appearance source: ${activeConfig.source}`,
+            `Detectors: ${formatDetectors(getDetectorChain(activeConfig))} (${activeConfig.detectorPolicy}${
+                activeConfig.detectors ? "" : `, from source "${activeConfig.source}"`
+            })`,
+            "Detection:",
+            ...(trace.length > 0
+                ? trace.map((step) => {
+                      const parts = [`  ${step.backend}`];
+                      if (step.command) {
+                          parts.push(`$ ${step.command}`);
+                      }
+                      if (step.exitStatus !== undefined) {
+                          parts.push(`exit ${step.exitStatus}`);
+                      }
+                      parts.push(`output ${step.output ? JSON.stringify(step.output) : "(empty)"}`);
+                      parts.push(
+                          step.highContrast !== undefined
+                              ? `-> high contrast ${step.highContrast ? "on" : "off"}`
+                              : `-> ${step.appearance ?? "unknown"}`,
+                      );
+                      return parts.join(" | ");
+                  })
+                : ["  (no backend for this platform/source)"]),
+            `Parsed appearance: ${describeDetection(detection)}${contrast ? " (high contrast)" : ""}${forcedAppearance ? ` (forced: ${forcedAppearance})` : ""}`,
+            "Effective config:",
+            ...CONFIG_KEYS.map(
+                (key) => `  ${key}: ${JSON.stringify(activeConfig[key])} (${loadedConfig.sources[key]})`,
+            ),
+            `Last sync detection: ${
+                lastDetection
+                    ? `${describeDetection(lastDetection.detection)} at ${formatTime(lastDetection.at)}`
+                    : "none"
+            }`,
+            `Auto-sync: ${describeAutoSync(ctx)}`,
+            `Pause: ${describePause(readPause())}`,
+            `Current theme: ${ctx.ui.theme.name ?? "unknown"}`,
+            `Last switch: ${lastSwitch ? `${lastSwitch.theme} at ${formatTime(lastSwitch.at)}` : "none this session"}`,
+            `Last setTheme error: ${
+                lastSetThemeFailure
+                    ? `"${lastSetThemeFailure.theme}": ${lastSetThemeFailure.message} at ${formatTime(lastSetThemeFailure.at)}`
+                    : "none"
+            }`,
+            `Change tracking: ${describeWatchMode()}`,
+            `Shared detection: ${describeSharedDetection()}`,
+            `onSwitch hooks: ${activeConfig.onSwitch.length} configured${
+                lastHookFailures.length > 0 ? `, last failures:\n  ${lastHookFailures.join("\n  ")}` : ""
+            }`,
+            `Debug log: ${activeConfig.debug ? DEBUG_LOG_PATH : "off"}`,
+        ];
+
+        ctx.ui.notify(lines.join("\n"), "info");
+    }
+
+    async function showHistory(ctx: ExtensionCommandContext, count: number): Promise<void> {
+        await debugLogWrite;
+        const switches = (await readDebugLog()).filter(
+            (record): record is Extract<DebugLogRecord, { event: "switch" }> => record.event === "switch",
+        );
+
+        if (switches.length === 0) {
+            const hint = activeConfig.debug
+                ? `Nothing in ${DEBUG_LOG_PATH} yet.`
+                : 'Enable the debug log with "debug": true or PI_SYSTEM_THEME_DEBUG=1 to record them.';
+            ctx.ui.notify(`No theme switches recorded. ${hint}`, "info");
+            return;
+        }
+
+        const shown = switches.slice(-count);
         ctx.ui.notify(
-            `Current theme "${displayTheme}" is custom. Skipping default dark/light auto-sync. Configure /system-theme to enable syncing.`,
+            [`Last ${shown.length} theme switches (oldest first):`, ...shown.map(formatSwitchRecord)].join("\n"),
             "info",
         );
     }
 
-    async function syncTheme(ctx: ExtensionContext): Promise<void> {
-        if (!shouldAutoSync(ctx, activeConfig) || syncInProgress) {
+    function forceAppearance(ctx: ExtensionCommandContext, appearance: Appearance): void {
+        forcedAppearance = appearance;
+        manualOverride = null;
+
+        if (applyAppearance(ctx, appearance)) {
+            ctx.ui.notify(
+                `Forcing ${appearance} appearance (${resolveTargetTheme(appearance)}) for this session. Use /system-theme auto to resume syncing.`,
+                "info",
+            );
+        } else {
+            ctx.ui.notify(`Failed to apply theme "${resolveTargetTheme(appearance)}".`, "error");
+        }
+
+        restartPolling(ctx);
+    }
+
+    async function pauseAutoSync(ctx: ExtensionCommandContext, durationText: string | undefined): Promise<void> {
+        const durationMs = durationText === undefined ? null : parseDuration(durationText);
+        if (durationMs === undefined) {
+            ctx.ui.notify(`Expected a duration such as 30m, 1h or 1h30m, got "${durationText}".`, "warning");
             return;
         }
 
-        syncInProgress = true;
+        const pause: PauseState = {
+            until: durationMs === null ? null : new Date(Date.now() + durationMs).toISOString(),
+            pid: process.pid,
+            session: sessionToken,
+        };
 
         try {
-            const appearance = await detectAppearance();
-            if (!appearance) {
-                return;
-            }
+            await writePause(pause);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            ctx.ui.notify(`Failed to pause: ${message}`, "error");
+            return;
+        }
 
-            const targetTheme = appearance === "dark" ? activeConfig.darkTheme : activeConfig.lightTheme;
-            if (ctx.ui.theme.name === targetTheme) {
-                return;
-            }
+        activePause = pause;
+        schedulePauseExpiry(ctx);
+        ctx.ui.notify(
+            `Paused auto-sync in all sessions ${pause.until ? `until ${new Date(pause.until).toLocaleString()}` : "until this session ends"}. Use /system-theme auto to resume.`,
+            "info",
+        );
+    }
 
-            const result = ctx.ui.setTheme(targetTheme);
-            if (result.success) {
-                lastSetThemeError = null;
-                return;
-            }
+    async function resumeAutoSync(ctx: ExtensionCommandContext): Promise<void> {
+        forcedAppearance = null;
+        // Resuming means the theme follows the appearance again, whatever was picked by hand.
+        manualOverride = null;
+        lastAppliedTheme = undefined;
 
-            const message = result.error ?? "unknown error";
-            const errorKey = `${targetTheme}:${message}`;
-            if (errorKey !== lastSetThemeError) {
-                lastSetThemeError = errorKey;
-                console.warn(`[pi-system-theme] Failed to set theme "${targetTheme}": ${message}`);
-            }
-        } finally {
-            syncInProgress = false;
+        // Forget the pause first, so its end is not announced on top of the message below.
+        activePause = null;
+        clearPauseTimer();
+        try {
+            await clearPause();
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            ctx.ui.notify(`Failed to remove the pause: ${message}`, "error");
         }
-    }
 
-    function restartPolling(ctx: ExtensionContext): void {
-        if (intervalId) {
-            clearInterval(intervalId);
-            intervalId = null;
+        await syncTheme(ctx);
+        restartPolling(ctx);
+
+        if (shouldAutoSync(ctx, activeConfig)) {
+            ctx.ui.notify("Resumed syncing with the system appearance.", "info");
+        } else {
+            maybeNotifyDefaultThemeFallback(ctx);
         }
+    }
 
-        if (!shouldAutoSync(ctx, activeConfig)) {
+    async function resetToDefaults(ctx: ExtensionCommandContext): Promise<void> {
+        forcedAppearance = null;
+        manualOverride = null;
+
+        try {
+            const kept: ConfigLayerValues = { ...loadedConfig.layers.global };
+            for (const key of THEME_CONFIG_KEYS) {
+                delete kept[key];
+            }
+
+            const withoutThemes = mergeConfigLayers({ ...loadedConfig.layers, global: kept });
+            await saveConfig(withoutThemes.config, "global", ctx.cwd, withoutThemes);
+            await reloadConfig(ctx.cwd);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            ctx.ui.notify(`Failed to remove theme overrides: ${message}`, "error");
             return;
         }
 
-        intervalId = setInterval(() => {
-            void syncTheme(ctx);
-        }, activeConfig.pollMs);
+        validateThemeMappings(ctx);
+
+        const restoredTheme = themeBeforeFirstSwitch;
+        themeBeforeFirstSwitch = undefined;
+        lastAppliedTheme = undefined;
+
+        if (restoredTheme !== undefined && ctx.ui.theme.name !== restoredTheme) {
+            const result = ctx.ui.setTheme(restoredTheme);
+            if (!result.success) {
+                ctx.ui.notify(
+                    `Removed theme overrides, but failed to restore theme "${restoredTheme}": ${result.error ?? "unknown error"}`,
+                    "warning",
+                );
+                restartPolling(ctx);
+                return;
+            }
+        }
+
+        restartPolling(ctx);
+
+        const remaining = THEME_CONFIG_KEYS.filter((key) => loadedConfig.sources[key] !== "default");
+        const remainingNote =
+            remaining.length > 0
+                ? ` Still set by project/env: ${remaining.map((key) => `${key} (${loadedConfig.sources[key]})`).join(", ")}.`
+                : "";
+
+        ctx.ui.notify(
+            restoredTheme !== undefined
+                ? `Removed theme overrides and restored theme "${restoredTheme}".${remainingNote}`
+                : `Removed theme overrides.${remainingNote}`,
+            "info",
+        );
     }
 
+    pi.events.on(APPEARANCE_QUERY_EVENT, (data) => {
+        if (isObject(data) && typeof data.reply === "function") {
+            const state: AppearanceState = {
+                appearance: lastAppearance,
+                highContrast,
+                forced: forcedAppearance !== null,
+                detectedBy: lastDetectedBy,
+            };
+            (data as AppearanceQuery).reply(state);
+        }
+    });
+
     pi.registerCommand("system-theme", {
-        description: "Configure pi-system-theme",
-        handler: async (_args, ctx) => {
+        description: "Configure pi-system-theme (dark, light, toggle, pause, auto, reset, status, history)",
+        getArgumentCompletions: (argumentPrefix) => {
+            const prefix = argumentPrefix.trim().toLowerCase();
+            const matches = SUBCOMMANDS.filter(({ name }) => name.startsWith(prefix));
+            return matches.length > 0
+                ? matches.map(({ name, description }) => ({ value: name, label: name, description }))
+                : null;
+        },
+        handler: async (args, ctx) => {
             if (!isSupportedPlatform()) {
-                notifyInfoIfUI(ctx, "pi-system-theme currently supports macOS, Linux (GNOME gsettings), and Windows.");
+                notifyInfoIfUI(ctx, "pi-system-theme currently supports macOS, Linux, and Windows.");
                 return;
             }
 
@@ -437,75 +4233,55 @@ export default function systemThemeExtension(pi: ExtensionAPI): void {
                 return;
             }
 
-            const draft: Config = { ...activeConfig };
-
-            while (true) {
-                const darkOption = `Dark theme: ${draft.darkTheme}`;
-                const lightOption = `Light theme: ${draft.lightTheme}`;
-                const pollOption = `Poll interval (ms): ${draft.pollMs}`;
-                const saveOption = "Save and apply";
-                const cancelOption = "Cancel";
-
-                const choice = await ctx.ui.select("pi-system-theme", [
-                    darkOption,
-                    lightOption,
-                    pollOption,
-                    saveOption,
-                    cancelOption,
-                ]);
-
-                if (choice === undefined || choice === cancelOption) {
-                    return;
-                }
-
-                if (choice === darkOption) {
-                    const next = await promptTheme(ctx, "Dark theme", draft.darkTheme);
-                    if (next !== undefined) {
-                        draft.darkTheme = next;
-                    }
-                    continue;
-                }
+            const [subcommand, ...rest] = args.trim().toLowerCase().split(/\s+/);
 
-                if (choice === lightOption) {
-                    const next = await promptTheme(ctx, "Light theme", draft.lightTheme);
-                    if (next !== undefined) {
-                        draft.lightTheme = next;
-                    }
-                    continue;
-                }
+            // Only `pause` (a duration) and `history` (how many switches to show) take an argument.
+            if (subcommand === "pause" && rest.length <= 1) {
+                await pauseAutoSync(ctx, rest[0]);
+                return;
+            }
 
-                if (choice === pollOption) {
-                    const next = await promptPollMs(ctx, draft.pollMs);
-                    if (next !== undefined) {
-                        draft.pollMs = next;
-                    }
-                    continue;
+            if (subcommand === "history" && rest.length <= 1) {
+                const count = rest.length === 0 ? DEFAULT_HISTORY_COUNT : Number(rest[0]);
+                if (Number.isInteger(count) && count > 0) {
+                    await showHistory(ctx, count);
+                } else {
+                    ctx.ui.notify(`Expected a positive number of switches, got "${rest[0]}".`, "warning");
                 }
+                return;
+            }
 
-                if (choice === saveOption) {
-                    activeConfig = draft;
-
-                    try {
-                        const result = await saveConfig(activeConfig);
-                        if (result.wroteFile) {
-                            ctx.ui.notify(
-                                `Saved ${result.overrideCount} override(s) to ${GLOBAL_CONFIG_PATH}.`,
-                                "info",
-                            );
-                        } else {
-                            ctx.ui.notify("No overrides left. Using defaults.", "info");
-                        }
-                    } catch (error) {
-                        const message = error instanceof Error ? error.message : String(error);
-                        ctx.ui.notify(`Failed to save config: ${message}`, "error");
-                        return;
-                    }
-
-                    await syncTheme(ctx);
-                    restartPolling(ctx);
-                    maybeNotifyDefaultThemeFallback(ctx);
+            const command = rest.length === 0 ? subcommand : undefined;
+            switch (command) {
+                case "":
+                    await openSettingsMenu(ctx);
+                    return;
+                case "dark":
+                case "light":
+                    forceAppearance(ctx, command);
+                    return;
+                case "toggle": {
+                    const current =
+                        forcedAppearance ??
+                        lastAppearance ??
+                        (ctx.ui.theme.name === activeConfig.lightTheme ? "light" : "dark");
+                    forceAppearance(ctx, oppositeAppearance(current));
                     return;
                 }
+                case "auto":
+                    await resumeAutoSync(ctx);
+                    return;
+                case "reset":
+                    await resetToDefaults(ctx);
+                    return;
+                case "status":
+                    await showStatus(ctx);
+                    return;
+                case "help":
+                    ctx.ui.notify(getHelpText(), "info");
+                    return;
+                default:
+                    ctx.ui.notify(`Unknown argument "${args.trim()}".\n${getHelpText()}`, "warning");
             }
         },
     });
@@ -515,7 +4291,9 @@ export default function systemThemeExtension(pi: ExtensionAPI): void {
             return;
         }
 
-        activeConfig = await loadConfig();
+        reportConfigDiagnostics(ctx, await reloadConfig(ctx.cwd));
+        validateThemeMappings(ctx);
+        startConfigWatch(ctx);
 
         if (!shouldAutoSync(ctx, activeConfig)) {
             maybeNotifyDefaultThemeFallback(ctx);
@@ -526,12 +4304,13 @@ export default function systemThemeExtension(pi: ExtensionAPI): void {
         restartPolling(ctx);
     });
 
-    pi.on("session_shutdown", () => {
-        if (!intervalId) {
-            return;
-        }
-
-        clearInterval(intervalId);
-        intervalId = null;
+    pi.on("session_shutdown", async () => {
+        stopWatching();
+        await sharedStateWrite;
+        releaseDetectionLeadership();
+        stopConfigWatch();
+        clearPauseTimer();
+        await clearPause(sessionToken).catch(() => undefined);
+        await debugLogWrite;
     });
 }